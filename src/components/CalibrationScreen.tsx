@@ -0,0 +1,203 @@
+/**
+ * CalibrationScreen - Four-corner play-area calibration
+ * The player reaches comfortably towards each corner and holds still; that
+ * patch of camera space is then stretched over the whole screen
+ */
+
+import { useState, useCallback } from 'react';
+import { Crosshair, X, RotateCcw } from 'lucide-react';
+import { GestureButton } from './GestureButton';
+import { Point } from '@/utils/homography';
+import { CALIBRATION_CORNERS } from '@/utils/calibration';
+
+interface CalibrationScreenProps {
+  profile: string;
+  profiles: string[];
+  isCalibrated: boolean;
+  getRawFingertip: () => Point | null;
+  onSelectProfile: (profile: string) => void;
+  // False when the reached points were unusable
+  onCalibrate: (profile: string, reached: Point[]) => boolean;
+  onClear: (profile: string) => void;
+  onClose: () => void;
+  handPosition: { x: number; y: number; isTracking: boolean };
+}
+
+const CORNER_NAMES = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+// Holding still for longer than a menu press keeps a passing hand from counting
+const CORNER_DWELL_MS = 1500;
+
+export function CalibrationScreen({
+  profile,
+  profiles,
+  isCalibrated,
+  getRawFingertip,
+  onSelectProfile,
+  onCalibrate,
+  onClear,
+  onClose,
+  handPosition,
+}: CalibrationScreenProps) {
+  const [name, setName] = useState(profile);
+  // null while choosing a profile, otherwise the corner being reached for
+  const [step, setStep] = useState<number | null>(null);
+  const [reached, setReached] = useState<Point[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const profileName = name.trim() || profile;
+
+  const start = useCallback(() => {
+    setReached([]);
+    setError(null);
+    setStep(0);
+  }, []);
+
+  const handleCorner = useCallback(() => {
+    if (step === null) return;
+    const point = getRawFingertip();
+    if (!point) return;
+
+    const next = [...reached, point];
+    if (next.length < CALIBRATION_CORNERS.length) {
+      setReached(next);
+      setStep(step + 1);
+      return;
+    }
+
+    if (onCalibrate(profileName, next)) {
+      onClose();
+    } else {
+      setError('Those corners do not make a usable area - reach each corner in turn, a little further out, and try again');
+      setReached([]);
+      setStep(null);
+    }
+  }, [step, reached, getRawFingertip, onCalibrate, profileName, onClose]);
+
+  if (step !== null) {
+    const corner = CALIBRATION_CORNERS[step];
+    const opposite = CALIBRATION_CORNERS[(step + 2) % CALIBRATION_CORNERS.length];
+
+    return (
+      <div className="absolute inset-0 z-30 bg-black/60">
+        {/* The whole quadrant is the target - wherever feels comfortable in it counts */}
+        <GestureButton
+          key={step}
+          onActivate={handleCorner}
+          handPosition={handPosition}
+          dwellTime={CORNER_DWELL_MS}
+          aria-label={`Calibrate ${CORNER_NAMES[step]} corner`}
+          className="absolute w-1/2 h-1/2 scale-100 border-4 border-dashed border-primary/60 bg-primary/10"
+          style={{ left: `${corner.x * 50}%`, top: `${corner.y * 50}%` }}
+        >
+          <Crosshair
+            size={56}
+            className="absolute text-primary animate-pulse"
+            style={{
+              [corner.x === 0 ? 'left' : 'right']: 16,
+              [corner.y === 0 ? 'top' : 'bottom']: 16,
+            }}
+          />
+        </GestureButton>
+
+        <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none font-game text-center">
+          <p className="text-primary text-3xl mb-2">
+            {step + 1} / {CALIBRATION_CORNERS.length}
+          </p>
+          <p className="text-foreground text-xl max-w-sm">
+            Reach comfortably towards the {CORNER_NAMES[step]} corner and hold still
+          </p>
+        </div>
+
+        {/* Cancel sits in the quadrant nobody is reaching for */}
+        <GestureButton
+          onActivate={() => setStep(null)}
+          handPosition={handPosition}
+          className="absolute px-4 py-2 rounded-lg bg-card/80 border border-border font-game text-sm text-foreground flex items-center gap-1"
+          style={{
+            [opposite.x === 0 ? 'left' : 'right']: 24,
+            [opposite.y === 0 ? 'top' : 'bottom']: 24,
+          }}
+        >
+          <X size={14} />
+          CANCEL
+        </GestureButton>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-30 bg-black/70 backdrop-blur-sm">
+      <div className="bg-card/90 rounded-2xl p-6 border border-border shadow-2xl flex flex-col items-center gap-4 max-w-md">
+        <div className="flex items-center justify-between w-full">
+          <h2 className="font-game text-2xl text-primary">CALIBRATE PLAY AREA</h2>
+          <GestureButton
+            onActivate={onClose}
+            handPosition={handPosition}
+            aria-label="Close"
+            className="p-2 rounded-lg text-muted-foreground hover:text-foreground"
+          >
+            <X size={20} />
+          </GestureButton>
+        </div>
+
+        <p className="text-muted-foreground text-sm text-center">
+          Reach towards each corner as far as is comfortable. That area becomes the whole screen, so
+          you never have to stretch to the edge of the camera.
+        </p>
+
+        {/* Profiles - each keeps its own calibration */}
+        <div className="flex flex-wrap justify-center gap-2">
+          {profiles.map(saved => (
+            <GestureButton
+              key={saved}
+              onActivate={() => {
+                setName(saved);
+                onSelectProfile(saved);
+              }}
+              handPosition={handPosition}
+              className={`px-3 py-1 rounded-lg border font-game text-sm ${
+                saved === profile ? 'bg-primary text-primary-foreground border-primary' : 'bg-card/80 border-border text-foreground'
+              }`}
+            >
+              {saved}
+            </GestureButton>
+          ))}
+        </div>
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Profile name"
+          aria-label="Profile name"
+          className="w-48 px-3 py-2 rounded-lg bg-card/80 border border-border text-center font-game text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+
+        {error && <p className="text-destructive text-sm text-center">{error}</p>}
+
+        <div className="flex gap-3">
+          <GestureButton
+            onActivate={start}
+            handPosition={handPosition}
+            className="wood-button px-6 py-3 text-xl font-game flex items-center gap-2"
+          >
+            <Crosshair size={20} />
+            START
+          </GestureButton>
+
+          {isCalibrated && profileName === profile && (
+            <GestureButton
+              onActivate={() => onClear(profile)}
+              handPosition={handPosition}
+              className="px-4 py-3 rounded-xl bg-card/80 border border-border font-game text-sm text-foreground flex items-center gap-1"
+            >
+              <RotateCcw size={14} />
+              FULL FRAME
+            </GestureButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,35 @@
 import { useEffect, useRef, useState } from 'react';
 import { Video, VideoOff } from 'lucide-react';
 import { GestureButton } from './GestureButton';
+import { TrackingState, isCameraActive } from '@/input/trackingLifecycle';
+
+// What the preview label says, and the colour of the toggle's status dot
+const TRACKING_LABELS: Record<TrackingState, { label: string; color: string }> = {
+  idle: { label: 'CAMERA', color: '#95a5a6' },
+  requesting: { label: 'STARTING', color: '#f1c40f' },
+  'loading-model': { label: 'LOADING MODEL', color: '#f1c40f' },
+  running: { label: 'CAMERA', color: '#2ecc71' },
+  degraded: { label: 'STALLED', color: '#e67e22' },
+  lost: { label: 'CAMERA LOST', color: '#e74c3c' },
+  recovering: { label: 'RECONNECTING', color: '#e67e22' },
+  failed: { label: 'CAMERA FAILED', color: '#e74c3c' },
+};
 
 interface CameraFeedProps {
   showCamera: boolean;
   toggleCamera: () => void;
   videoRef: React.MutableRefObject<HTMLVideoElement | null>;
   streamRef: React.MutableRefObject<MediaStream | null>;
-  cameraReady: boolean;
+  trackingState: TrackingState;
   handPosition: { x: number; y: number; isTracking: boolean };
 }
 
-export function CameraFeed({ showCamera, toggleCamera, videoRef, streamRef, cameraReady, handPosition }: CameraFeedProps) {
+export function CameraFeed({ showCamera, toggleCamera, videoRef, streamRef, trackingState, handPosition }: CameraFeedProps) {
   const displayVideoRef = useRef<HTMLVideoElement>(null);
   const [streamAttached, setStreamAttached] = useState(false);
+  // A reacquired camera is a new stream, so the preview attaches again
+  const cameraReady = isCameraActive(trackingState);
+  const status = TRACKING_LABELS[trackingState];
 
   // Clone the stream to the display video when showing camera
   useEffect(() => {
@@ -75,6 +91,7 @@ export function CameraFeed({ showCamera, toggleCamera, videoRef, streamRef, came
             Camera
           </>
         )}
+        <span className="w-2 h-2 rounded-full" style={{ background: status.color }} title={trackingState} />
       </GestureButton>
 
       {/* Camera Preview - Bottom LEFT */}
@@ -93,10 +110,10 @@ export function CameraFeed({ showCamera, toggleCamera, videoRef, streamRef, came
             className="absolute top-0 left-0 right-0 z-10 text-center py-1 text-xs font-bold"
             style={{
               background: 'rgba(0, 0, 0, 0.7)',
-              color: 'rgba(255, 200, 50, 0.9)',
+              color: trackingState === 'running' ? 'rgba(255, 200, 50, 0.9)' : status.color,
             }}
           >
-            CAMERA
+            {status.label}
           </div>
           <video
             ref={displayVideoRef}
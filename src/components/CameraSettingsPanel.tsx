@@ -0,0 +1,104 @@
+/**
+ * CameraSettingsPanel - Pick the camera, resolution and frame rate to track with
+ * Every choice is remembered and restarts tracking on the spot
+ */
+
+import { X, Video } from 'lucide-react';
+import { GestureButton } from './GestureButton';
+import { CameraSettings, CAMERA_RESOLUTIONS, CAMERA_FRAME_RATES } from '@/utils/cameraSettings';
+
+interface CameraSettingsPanelProps {
+  cameras: MediaDeviceInfo[];
+  settings: CameraSettings;
+  activeCamera: MediaTrackSettings | null;
+  onChange: (settings: CameraSettings) => void;
+  onClose: () => void;
+  handPosition: { x: number; y: number; isTracking: boolean };
+}
+
+function optionClass(selected: boolean): string {
+  return `px-3 py-2 rounded-lg border font-game text-sm ${
+    selected ? 'bg-primary text-primary-foreground border-primary' : 'bg-card/80 border-border text-foreground'
+  }`;
+}
+
+export function CameraSettingsPanel({ cameras, settings, activeCamera, onChange, onClose, handPosition }: CameraSettingsPanelProps) {
+  // The default camera counts as selected when nothing was picked yet
+  const selectedDevice = settings.deviceId ?? activeCamera?.deviceId ?? null;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-30 bg-black/70 backdrop-blur-sm">
+      <div className="bg-card/90 rounded-2xl p-6 border border-border shadow-2xl flex flex-col gap-4 max-w-lg">
+        <div className="flex items-center justify-between w-full">
+          <h2 className="font-game text-2xl text-primary">CAMERA</h2>
+          <GestureButton
+            onActivate={onClose}
+            handPosition={handPosition}
+            aria-label="Close"
+            className="p-2 rounded-lg text-muted-foreground hover:text-foreground"
+          >
+            <X size={20} />
+          </GestureButton>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-muted-foreground font-game text-xs uppercase">Device</p>
+          <div className="flex flex-col gap-2">
+            {cameras.length === 0 && <p className="text-muted-foreground text-sm">No cameras found</p>}
+            {cameras.map((camera, i) => (
+              <GestureButton
+                key={camera.deviceId || i}
+                onActivate={() => onChange({ ...settings, deviceId: camera.deviceId })}
+                handPosition={handPosition}
+                className={`${optionClass(camera.deviceId === selectedDevice)} flex items-center gap-2 text-left`}
+              >
+                <Video size={16} />
+                {camera.label || `Camera ${i + 1}`}
+              </GestureButton>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-muted-foreground font-game text-xs uppercase">Resolution</p>
+          <div className="flex gap-2">
+            {CAMERA_RESOLUTIONS.map(({ width, height }) => (
+              <GestureButton
+                key={width}
+                onActivate={() => onChange({ ...settings, width, height })}
+                handPosition={handPosition}
+                className={optionClass(width === settings.width && height === settings.height)}
+              >
+                {width}×{height}
+              </GestureButton>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-muted-foreground font-game text-xs uppercase">Frame rate</p>
+          <div className="flex gap-2">
+            {CAMERA_FRAME_RATES.map(frameRate => (
+              <GestureButton
+                key={frameRate}
+                onActivate={() => onChange({ ...settings, frameRate })}
+                handPosition={handPosition}
+                className={optionClass(frameRate === settings.frameRate)}
+              >
+                {frameRate} fps
+              </GestureButton>
+            ))}
+          </div>
+        </div>
+
+        {/* Size and rate are requests - show what the camera settled on */}
+        {activeCamera && (
+          <p className="text-muted-foreground text-xs font-mono">
+            Running at {activeCamera.width}×{activeCamera.height}
+            {activeCamera.frameRate ? ` @ ${Math.round(activeCamera.frameRate)} fps` : ''}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * DailyCalendar - Past daily challenge results on a calendar
+ * Days with attempts are highlighted; pick one to see its attempts and best
+ */
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Calendar } from '@/components/ui/calendar';
+import { GestureButton } from './GestureButton';
+import { DailyHistory, dayKey, dateFromDayKey } from '@/utils/daily';
+
+interface DailyCalendarProps {
+  history: DailyHistory;
+  onClose: () => void;
+  handPosition: { x: number; y: number; isTracking: boolean };
+}
+
+export function DailyCalendar({ history, onClose, handPosition }: DailyCalendarProps) {
+  const [selected, setSelected] = useState<Date | undefined>(() => new Date());
+  const playedDays = Object.keys(history).map(dateFromDayKey);
+  const result = selected ? history[dayKey(selected)] : undefined;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-30 bg-black/70 backdrop-blur-sm">
+      <div className="bg-card/90 rounded-2xl p-6 border border-border shadow-2xl flex flex-col items-center">
+        <div className="flex items-center justify-between w-full mb-2">
+          <h2 className="font-game text-2xl text-primary">DAILY HISTORY</h2>
+          <GestureButton
+            onActivate={onClose}
+            handPosition={handPosition}
+            aria-label="Close"
+            className="p-2 rounded-lg text-muted-foreground hover:text-foreground"
+          >
+            <X size={20} />
+          </GestureButton>
+        </div>
+
+        <Calendar
+          mode="single"
+          selected={selected}
+          onSelect={setSelected}
+          disabled={{ after: new Date() }}
+          modifiers={{ played: playedDays }}
+          modifiersClassNames={{ played: 'text-primary font-bold underline' }}
+        />
+
+        <div className="font-game text-center min-h-[3rem]">
+          {result ? (
+            <>
+              <p className="text-foreground text-lg">BEST: {result.best}</p>
+              <p className="text-muted-foreground text-sm">
+                {result.attempts} {result.attempts === 1 ? 'attempt' : 'attempts'}
+              </p>
+            </>
+          ) : (
+            <p className="text-muted-foreground text-sm">No attempts that day</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,15 +4,38 @@
  */
 
 import { useEffect, useRef, useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useHandTracking } from '@/hooks/useHandTracking';
 import { useGameEngine } from '@/hooks/useGameEngine';
+import { useVersusEngine } from '@/hooks/useVersusEngine';
 import { useAudio } from '@/hooks/useAudio';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useDailyChallenge } from '@/hooks/useDailyChallenge';
+import { useCalibration } from '@/hooks/useCalibration';
+import { useAutoPause, PauseReason } from '@/hooks/useAutoPause';
+import { useGestureControls } from '@/hooks/useGestureControls';
 import { GameCanvas } from './GameCanvas';
 import { GameHUD } from './GameHUD';
 import { MenuScreen } from './MenuScreen';
 import { GameOverScreen } from './GameOverScreen';
+import { VersusArena } from './VersusArena';
+import { VersusResultsScreen } from './VersusResultsScreen';
 import { CameraFeed } from './CameraFeed';
 import { AudioToggle } from './AudioToggle';
+import { PauseOverlay } from './PauseOverlay';
+import { TrackingDebugOverlay } from './TrackingDebugOverlay';
+import { TrackingTelemetryOverlay } from './TrackingTelemetryOverlay';
+import { CalibrationScreen } from './CalibrationScreen';
+import { CameraSettingsPanel } from './CameraSettingsPanel';
+import { InputSettingsPanel } from './InputSettingsPanel';
+import { GestureButton } from './GestureButton';
+import { Pause } from 'lucide-react';
+import { GameMode } from '@/types/game';
+import { DAILY_MODE } from '@/engine/modes';
+import { HandAssignment } from '@/engine/versus';
+import { toPlayArea } from '@/engine/replay';
+import { isCameraInUse } from '@/input/trackingLifecycle';
+import { bestReplay } from '@/utils/replayStorage';
 
 // Wave colors (green -> yellow -> orange -> red as difficulty increases)
 const WAVE_COLORS = ['#4ade80', '#facc15', '#fb923c', '#ef4444', '#dc2626'];
@@ -20,9 +43,14 @@ const WAVE_COLORS = ['#4ade80', '#facc15', '#fb923c', '#ef4444', '#dc2626'];
 export function FruitNinjaGame() {
   const containerRef = useRef<HTMLDivElement>(null);
   const gameLoopRef = useRef<number | null>(null);
-  const prevLivesRef = useRef(3);
-  const prevScoreRef = useRef(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
   const [screenShake, setScreenShake] = useState(false);
+  const [pauseReason, setPauseReason] = useState<PauseReason>('manual');
+  const [showTrackingDebug, setShowTrackingDebug] = useState(false);
+  const [showTelemetry, setShowTelemetry] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showCameraSettings, setShowCameraSettings] = useState(false);
+  const [showInputSettings, setShowInputSettings] = useState(false);
 
   // Get container dimensions
   const getCanvasDimensions = () => {
@@ -38,98 +66,236 @@ export function FruitNinjaGame() {
   const dimensions = getCanvasDimensions();
 
   // Initialize audio system
-  const { playSlice, playBomb, playMiss, playCombo, playGameOver, initAudio, isAudioEnabled, toggleAudio } = useAudio();
+  const { playSlice, playBomb, playMiss, playCombo, playPowerUp, playGameOver, initAudio, isAudioEnabled, toggleAudio } = useAudio();
 
   const {
     handPosition,
-    isSwiping,
     showCamera,
     toggleCamera,
-    getTrail,
-    isLoading,
-    permissionDenied,
+    getBlades,
+    inputPriority,
+    setInputPriority,
+    gestureEvents,
+    bladeArmed,
+    toggleHandBlade,
+    bladeArming,
+    setBladeArming,
+    filterSettings,
+    setFilterSettings,
+    getFilterSamples,
+    lookaheadMs,
+    setLookahead,
+    getLatency,
+    getTelemetry,
+    isRecording,
+    toggleRecording,
+    getRawFingertip,
+    setPlayArea,
+    cameras,
+    cameraSettings,
+    activeCamera,
+    changeCameraSettings,
+    tracking,
     useMouseFallback,
     enableMouseFallback,
     requestCamera,
     videoRef,
     streamRef,
-    cameraReady,
     handDetected,
-    cameraAttempted,
-    initError,
   } = useHandTracking(dimensions.width, dimensions.height);
 
   const {
     gameState,
+    events,
+    mode,
+    rules,
+    highScores,
     stats,
+    timeRemaining,
+    seed,
     fruits,
     bombs,
     specialFruits,
     slicedFruits,
     particles,
     scorePopups,
+    lastReplayId,
+    ghost,
+    playArea,
+    playAreaFit,
+    bladesInPlayArea,
     bombFlash,
     activeEffect,
     currentWave,
     showWaveAnnouncement,
     criticalFlash,
     startGame,
+    pauseGame,
+    resumeGame,
     returnToMenu,
-    checkCollisions,
-    updatePhysics,
+    advance,
+    getRenderClock,
   } = useGameEngine(dimensions.width, dimensions.height);
 
-  // Play sounds based on game state changes
+  // Split-screen matches run beside the solo engine; whichever is out of its menu is on screen
+  const {
+    gameState: versusState,
+    events: versusEvents,
+    rules: versusRules,
+    assignment: versusAssignment,
+    players: versusPlayers,
+    winner: versusWinner,
+    startMatch,
+    pauseGame: pauseVersus,
+    resumeGame: resumeVersus,
+    returnToMenu: leaveVersus,
+    advance: advanceVersus,
+    renderClocks,
+  } = useVersusEngine(dimensions.width, dimensions.height);
+  const isVersus = versusState !== 'menu';
+  const activeState = isVersus ? versusState : gameState;
+  const handleResume = isVersus ? resumeVersus : resumeGame;
+  const handleMenu = isVersus ? leaveVersus : returnToMenu;
+
+  // Sounds - one per engine event, so simultaneous slices each get their own
   useEffect(() => {
-    // Slice sound when score increases
-    if (stats.score > prevScoreRef.current) {
-      playSlice();
-      // Combo sound for combos >= 3
-      if (stats.combo >= 3) {
-        setTimeout(playCombo, 50);
-      }
-    }
-    prevScoreRef.current = stats.score;
-  }, [stats.score, stats.combo, playSlice, playCombo]);
+    const unsubscribers = [events, versusEvents].flatMap(bus => [
+      bus.on('fruitSliced', () => playSlice()),
+      bus.on('comboReached', () => setTimeout(playCombo, 50)),
+      bus.on('strokeBonus', () => playCombo()),
+      bus.on('specialActivated', ({ specialType }) => playPowerUp(specialType)),
+      bus.on('bombHit', () => playBomb()),
+      bus.on('fruitMissed', () => playMiss()),
+      bus.on('gameOver', () => setTimeout(playGameOver, 300)),
+    ]);
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [events, versusEvents, playSlice, playCombo, playPowerUp, playBomb, playMiss, playGameOver]);
 
-  // Miss sound + screen shake when life lost
+  // Screen shake when a life is lost (but not on the final one), solo or versus
   useEffect(() => {
-    if (stats.lives < prevLivesRef.current && stats.lives > 0) {
-      playMiss();
-      setScreenShake(true);
-      setTimeout(() => setScreenShake(false), 200);
-    }
-    prevLivesRef.current = stats.lives;
-  }, [stats.lives, playMiss]);
+    const unsubscribers = [events, versusEvents].map(bus =>
+      bus.on('lifeLost', ({ lives }) => {
+        if (lives <= 0) return;
+        setScreenShake(true);
+        setTimeout(() => setScreenShake(false), 200);
+      })
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [events, versusEvents]);
 
-  // Bomb and game over sounds
+  useHaptics(events);
+  useHaptics(versusEvents);
+
+  const { history: dailyHistory, getTodaysRun } = useDailyChallenge(events);
+
+  const { profile, profiles, calibration, selectProfile, calibrate, clearCalibration } = useCalibration();
+
+  // Calibrating records raw camera positions, so the old mapping is off until it's done
   useEffect(() => {
-    if (bombFlash) {
-      playBomb();
-    }
-  }, [bombFlash, playBomb]);
+    setPlayArea(showCalibration ? null : calibration?.homography ?? null);
+  }, [showCalibration, calibration, setPlayArea]);
 
+  const handlePause = useCallback((reason: PauseReason) => {
+    setPauseReason(reason);
+    pauseGame();
+    pauseVersus();
+  }, [pauseGame, pauseVersus]);
+
+  const handleManualPause = useCallback(() => handlePause('manual'), [handlePause]);
+
+  useAutoPause({
+    isPlaying: activeState === 'playing',
+    watchHand: isCameraInUse(tracking.state) && !useMouseFallback,
+    handDetected,
+    onPause: handlePause,
+  });
+
+  useGestureControls({
+    events: gestureEvents,
+    handPosition,
+    isPlaying: activeState === 'playing',
+    onPause: handleManualPause,
+    // Pinching is how the blade arms in that mode, so it can't also toggle it
+    onToggleBlade: bladeArming === 'pinch' ? undefined : toggleHandBlade,
+  });
+
+  // Esc / P toggles pause
   useEffect(() => {
-    if (gameState === 'gameover') {
-      setTimeout(playGameOver, 300);
-    }
-  }, [gameState, playGameOver]);
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' && e.key !== 'p' && e.key !== 'P') return;
+      if (activeState === 'playing') {
+        handlePause('manual');
+      } else if (activeState === 'paused') {
+        handleResume();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [activeState, handlePause, handleResume]);
+
+  // F toggles the fingertip tracking debug overlay, T the tracking telemetry
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      // Typing an F into the seed box shouldn't open it
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'f' || e.key === 'F') setShowTrackingDebug(prev => !prev);
+      if (e.key === 't' || e.key === 'T') setShowTelemetry(prev => !prev);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
 
   // Handle game start - init audio on user interaction
-  const handleStartGame = useCallback(() => {
+  const handleStartGame = useCallback((runMode: GameMode, runSeed?: number) => {
     initAudio();
-    startGame();
+    startGame({ mode: runMode, seed: runSeed });
   }, [initAudio, startGame]);
 
-  // Game loop
-  const gameLoop = useCallback(() => {
+  const handleStartDaily = useCallback(() => {
+    initAudio();
+    startGame(getTodaysRun());
+  }, [initAudio, startGame, getTodaysRun]);
+
+  const handleStartVersus = useCallback((assignment: HandAssignment) => {
+    initAudio();
+    startMatch(assignment);
+  }, [initAudio, startMatch]);
+
+  const handleRematch = useCallback(() => {
+    startMatch(versusAssignment);
+  }, [startMatch, versusAssignment]);
+
+  const navigate = useNavigate();
+  const handleWatchReplay = useCallback(() => {
+    if (lastReplayId) navigate(`/replay/${lastReplayId}`);
+  }, [lastReplayId, navigate]);
+
+  const handleRaceGhost = useCallback((runMode: GameMode) => {
+    initAudio();
+    startGame({ mode: runMode, ghost: bestReplay(runMode) ?? undefined });
+  }, [initAudio, startGame]);
+
+  // Daily retries stay on today's seed; ghost races go again against the (possibly new) best
+  const handleRestart = useCallback(() => {
+    if (mode === DAILY_MODE.id) {
+      startGame(getTodaysRun());
+    } else {
+      startGame({ mode, ghost: ghost ? bestReplay(mode) ?? undefined : undefined });
+    }
+  }, [startGame, mode, ghost, getTodaysRun]);
+
+  // Game loop - frame time feeds the engine's fixed-timestep accumulator
+  const gameLoop = useCallback((timestamp: number) => {
+    const frameMs = lastFrameTimeRef.current === null ? 0 : timestamp - lastFrameTimeRef.current;
+    lastFrameTimeRef.current = timestamp;
+
     if (gameState === 'playing') {
-      const trail = getTrail();
-      checkCollisions(trail, isSwiping);
-      updatePhysics();
+      advance(frameMs, getBlades());
+    } else if (versusState === 'playing') {
+      advanceVersus(frameMs, getBlades());
     }
     gameLoopRef.current = requestAnimationFrame(gameLoop);
-  }, [gameState, getTrail, isSwiping, checkCollisions, updatePhysics]);
+  }, [gameState, getBlades, advance, versusState, advanceVersus]);
 
   useEffect(() => {
     gameLoopRef.current = requestAnimationFrame(gameLoop);
@@ -145,22 +311,52 @@ export function FruitNinjaGame() {
       ref={containerRef}
       className={`relative w-screen h-screen overflow-hidden select-none ${useMouseFallback ? 'cursor-crosshair' : 'cursor-none'} ${screenShake ? 'animate-shake' : ''}`}
     >
-      {/* Game Canvas */}
-      <GameCanvas
-        width={dimensions.width}
-        height={dimensions.height}
-        fruits={fruits}
-        bombs={bombs}
-        specialFruits={specialFruits}
-        slicedFruits={slicedFruits}
-        particles={particles}
-        scorePopups={scorePopups}
-        trail={getTrail()}
-        fingerPosition={handPosition}
-        isSwiping={isSwiping}
-        useMouseFallback={useMouseFallback}
-        activeEffect={activeEffect}
-      />
+      {/* Game Canvas - split in two for a versus match */}
+      {isVersus ? (
+        <VersusArena
+          width={dimensions.width}
+          height={dimensions.height}
+          players={versusPlayers}
+          rules={versusRules}
+          assignment={versusAssignment}
+          blades={getBlades()}
+          fingerPosition={handPosition}
+          bladeArmed={bladeArmed}
+          useMouseFallback={useMouseFallback}
+          renderClocks={renderClocks}
+        />
+      ) : (
+        // The world may have been recorded at another size - fit it on this screen
+        <div
+          className="absolute overflow-hidden"
+          style={{
+            left: playAreaFit.x,
+            top: playAreaFit.y,
+            width: playArea.width,
+            height: playArea.height,
+            transform: `scale(${playAreaFit.scale})`,
+            transformOrigin: 'top left',
+          }}
+        >
+          <GameCanvas
+            width={playArea.width}
+            height={playArea.height}
+            fruits={fruits}
+            bombs={bombs}
+            specialFruits={specialFruits}
+            slicedFruits={slicedFruits}
+            particles={particles}
+            scorePopups={scorePopups}
+            blades={bladesInPlayArea(getBlades())}
+            fingerPosition={toPlayArea(handPosition, playAreaFit)}
+            bladeArmed={bladeArmed}
+            useMouseFallback={useMouseFallback}
+            activeEffect={activeEffect}
+            ghost={ghost}
+            getRenderClock={getRenderClock}
+          />
+        </div>
+      )}
 
       {/* Wave Announcement Overlay */}
       {showWaveAnnouncement && gameState === 'playing' && (
@@ -197,22 +393,64 @@ export function FruitNinjaGame() {
       )}
 
       {/* HUD */}
-      {gameState === 'playing' && <GameHUD stats={stats} />}
+      {(gameState === 'playing' || gameState === 'paused') && (
+        <GameHUD stats={stats} timeRemaining={timeRemaining} widgets={rules.hud} maxLives={rules.lives} />
+      )}
+
+      {/* Pause Button - longer dwell so a passing swipe doesn't trigger it */}
+      {activeState === 'playing' && (
+        <GestureButton
+          onActivate={handleManualPause}
+          handPosition={handPosition}
+          dwellTime={1000}
+          aria-label="Pause"
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-lg font-game text-sm flex items-center gap-2"
+          style={{
+            background: 'linear-gradient(180deg, #a87832 0%, #8b6320 50%, #725217 100%)',
+            border: '2px solid #4a3915',
+            boxShadow: 'inset 0 1px 0 rgba(255, 220, 150, 0.3), 0 2px 0 #3d2e0f, 0 4px 8px rgba(0,0,0,0.3)',
+            color: '#fff8e7',
+            textShadow: '1px 1px 0 #3d2e0f',
+          }}
+        >
+          <Pause size={16} />
+          Pause
+        </GestureButton>
+      )}
+
+      {/* Pause Overlay */}
+      {activeState === 'paused' && (
+        <PauseOverlay
+          score={isVersus ? undefined : stats.score}
+          reason={pauseReason}
+          onResume={handleResume}
+          onMenu={handleMenu}
+          handPosition={handPosition}
+        />
+      )}
 
       {/* Menu Screen */}
-      {gameState === 'menu' && (
+      {/* Hidden behind calibration and settings panels so its buttons can't pick up the hand */}
+      {activeState === 'menu' && !showCalibration && !showCameraSettings && !showInputSettings && (
         <MenuScreen
           onStart={handleStartGame}
-          highScore={stats.highScore}
-          isLoading={isLoading}
-          permissionDenied={permissionDenied}
+          highScores={highScores}
+          onStartDaily={handleStartDaily}
+          onRaceGhost={handleRaceGhost}
+          onStartVersus={handleStartVersus}
+          onCalibrate={() => setShowCalibration(true)}
+          profile={profile}
+          isCalibrated={calibration !== null}
+          onOpenCameraSettings={() => setShowCameraSettings(true)}
+          onOpenInputSettings={() => setShowInputSettings(true)}
+          inputPriority={inputPriority}
+          dailyHistory={dailyHistory}
+          tracking={tracking}
           useMouseFallback={useMouseFallback}
           onEnableMouseFallback={enableMouseFallback}
           onRequestCamera={requestCamera}
           handDetected={handDetected}
           handPosition={handPosition}
-          cameraAttempted={cameraAttempted}
-          initError={initError}
         />
       )}
 
@@ -220,24 +458,99 @@ export function FruitNinjaGame() {
       {gameState === 'gameover' && (
         <GameOverScreen
           stats={stats}
-          onRestart={startGame}
+          mode={mode}
+          seed={seed}
+          onRestart={handleRestart}
+          onWatchReplay={lastReplayId ? handleWatchReplay : undefined}
           onMenu={returnToMenu}
           handPosition={handPosition}
         />
       )}
 
-      {/* Camera Feed - only show if camera is ready and not using mouse fallback */}
-      {!useMouseFallback && cameraReady && (
+      {showCalibration && (
+        <CalibrationScreen
+          profile={profile}
+          profiles={profiles}
+          isCalibrated={calibration !== null}
+          getRawFingertip={getRawFingertip}
+          onSelectProfile={selectProfile}
+          onCalibrate={calibrate}
+          onClear={clearCalibration}
+          onClose={() => setShowCalibration(false)}
+          handPosition={handPosition}
+        />
+      )}
+
+      {showCameraSettings && (
+        <CameraSettingsPanel
+          cameras={cameras}
+          settings={cameraSettings}
+          activeCamera={activeCamera}
+          onChange={changeCameraSettings}
+          onClose={() => setShowCameraSettings(false)}
+          handPosition={handPosition}
+        />
+      )}
+
+      {showInputSettings && (
+        <InputSettingsPanel
+          priority={inputPriority}
+          onChange={setInputPriority}
+          arming={bladeArming}
+          onArmingChange={setBladeArming}
+          onClose={() => setShowInputSettings(false)}
+          handPosition={handPosition}
+        />
+      )}
+
+      {/* Versus Results */}
+      {versusState === 'gameover' && (
+        <VersusResultsScreen
+          players={versusPlayers.map(player => player.stats)}
+          winner={versusWinner}
+          onRematch={handleRematch}
+          onMenu={leaveVersus}
+          handPosition={handPosition}
+        />
+      )}
+
+      {/* Camera Feed - stays up while a lost camera reconnects, hidden with mouse fallback */}
+      {!useMouseFallback && isCameraInUse(tracking.state) && (
         <CameraFeed
           showCamera={showCamera}
           toggleCamera={toggleCamera}
           videoRef={videoRef}
           streamRef={streamRef}
-          cameraReady={cameraReady}
+          trackingState={tracking.state}
           handPosition={handPosition}
         />
       )}
 
+      {showTrackingDebug && (
+        <TrackingDebugOverlay
+          width={dimensions.width}
+          height={dimensions.height}
+          getSamples={getFilterSamples}
+          settings={filterSettings}
+          onChange={setFilterSettings}
+          lookaheadMs={lookaheadMs}
+          onLookaheadChange={setLookahead}
+          getLatency={getLatency}
+          isRecording={isRecording}
+          onToggleRecording={toggleRecording}
+        />
+      )}
+
+      {showTelemetry && (
+        <TrackingTelemetryOverlay
+          width={dimensions.width}
+          height={dimensions.height}
+          getTelemetry={getTelemetry}
+          lookaheadMs={lookaheadMs}
+          trackingState={tracking.state}
+        />
+      )}
+
       {/* Audio Toggle - Bottom Right (next to camera toggle) */}
       <AudioToggle isEnabled={isAudioEnabled} onToggle={toggleAudio} handPosition={handPosition} />
     </div>
@@ -5,12 +5,16 @@
  */
 
 import { useEffect, useRef, useCallback } from 'react';
-import { Fruit, Bomb, SlicedFruit, Particle, ScorePopup, FruitType, SpecialFruit, SpecialFruitType } from '@/types/game';
-import { BladePoint } from '@/hooks/useHandTracking';
+import { Fruit, Bomb, SlicedFruit, Particle, ScorePopup, FruitType, SpecialFruit, SpecialFruitType, Blade } from '@/types/game';
+import { GhostFrame } from '@/hooks/useGameEngine';
+import { lerp } from '@/utils/fixedTimestep';
+import { bladePath } from '@/engine/collision';
 import {
   drawFruit,
   drawSlicedFruit,
   drawBladeTrail,
+  drawGhostTrail,
+  bladePalette,
   drawBomb,
   drawFingerIndicator,
   drawSpecialFruit,
@@ -32,11 +36,17 @@ interface GameCanvasProps {
   slicedFruits: SlicedFruit[];
   particles: Particle[];
   scorePopups: ScorePopup[];
-  trail: BladePoint[];
+  // Every blade in play - the pointer and up to two hands
+  blades: Blade[];
   fingerPosition: { x: number; y: number; isTracking: boolean };
-  isSwiping: boolean;
+  // False while the hand blade is switched off - the indicator shows it won't cut
+  bladeArmed?: boolean;
   useMouseFallback?: boolean;
   activeEffect?: SpecialFruitType | null;
+  // Best replay raced alongside the player
+  ghost?: GhostFrame | null;
+  // Interpolation factor between simulation steps and the matching simulation time
+  getRenderClock: () => { alpha: number; time: number };
 }
 
 export function GameCanvas({
@@ -48,11 +58,13 @@ export function GameCanvas({
   slicedFruits,
   particles,
   scorePopups,
-  trail,
+  blades,
   fingerPosition,
-  isSwiping,
+  bladeArmed = true,
   useMouseFallback = false,
   activeEffect,
+  ghost = null,
+  getRenderClock,
 }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -64,6 +76,8 @@ export function GameCanvas({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    const { alpha, time } = getRenderClock();
+
     // Clear canvas
     ctx.clearRect(0, 0, width, height);
 
@@ -91,18 +105,20 @@ export function GameCanvas({
 
     // Draw juice particles (behind fruits)
     particles.forEach(particle => {
-      const age = (Date.now() - particle.createdAt) / particle.lifetime;
-      const alpha = Math.max(0, 1 - age);
+      const age = (time - particle.createdAt) / particle.lifetime;
+      const opacity = Math.max(0, 1 - age);
       const size = Math.max(0.5, particle.size * (1 - age * 0.5));
+      const px = lerp(particle.prevX, particle.x, alpha);
+      const py = lerp(particle.prevY, particle.y, alpha);
 
       ctx.save();
-      ctx.globalAlpha = alpha;
+      ctx.globalAlpha = opacity;
       
       // Juice droplet with glow - ensure radius is positive
       if (size > 0) {
         const gradient = ctx.createRadialGradient(
-          particle.x, particle.y, 0,
-          particle.x, particle.y, size
+          px, py, 0,
+          px, py, size
         );
         gradient.addColorStop(0, particle.color);
         gradient.addColorStop(0.7, particle.color);
@@ -110,7 +126,7 @@ export function GameCanvas({
         
         ctx.fillStyle = gradient;
         ctx.beginPath();
-        ctx.arc(particle.x, particle.y, size, 0, Math.PI * 2);
+        ctx.arc(px, py, size, 0, Math.PI * 2);
         ctx.fill();
       }
       ctx.restore();
@@ -118,53 +134,76 @@ export function GameCanvas({
 
     // Draw sliced fruit halves
     slicedFruits.forEach(sf => {
-      const age = (Date.now() - sf.createdAt) / 1500;
-      const alpha = Math.max(0, 1 - age);
+      const age = (time - sf.createdAt) / 1500;
+      const opacity = Math.max(0, 1 - age);
       
       drawSlicedFruit(
         ctx,
         sf.type,
-        sf.x,
-        sf.y,
+        lerp(sf.prevX, sf.x, alpha),
+        lerp(sf.prevY, sf.y, alpha),
         sf.radius,
-        sf.rotation,
+        lerp(sf.prevRotation, sf.rotation, alpha),
         sf.half,
-        alpha
+        opacity
       );
     });
 
     // Draw whole fruits
     fruits.forEach(fruit => {
-      drawFruit(ctx, fruit.type, fruit.x, fruit.y, fruit.radius, fruit.rotation);
+      drawFruit(
+        ctx,
+        fruit.type,
+        lerp(fruit.prevX, fruit.x, alpha),
+        lerp(fruit.prevY, fruit.y, alpha),
+        fruit.radius,
+        lerp(fruit.prevRotation, fruit.rotation, alpha)
+      );
     });
 
     // Draw special power-up fruits
     specialFruits.forEach(special => {
-      drawSpecialFruit(ctx, special.specialType, special.x, special.y, special.radius, special.rotation);
+      drawSpecialFruit(
+        ctx,
+        special.specialType,
+        lerp(special.prevX, special.x, alpha),
+        lerp(special.prevY, special.y, alpha),
+        special.radius,
+        lerp(special.prevRotation, special.rotation, alpha)
+      );
     });
 
     // Draw bombs
     bombs.forEach(bomb => {
-      drawBomb(ctx, bomb.x, bomb.y, bomb.radius, bomb.rotation);
+      drawBomb(
+        ctx,
+        lerp(bomb.prevX, bomb.x, alpha),
+        lerp(bomb.prevY, bomb.y, alpha),
+        bomb.radius,
+        lerp(bomb.prevRotation, bomb.rotation, alpha)
+      );
     });
 
-    // Draw blade trail
-    drawBladeTrail(ctx, trail, isSwiping);
+    // Ghost blade sits under the live one
+    ghost?.blades.forEach(blade => drawGhostTrail(ctx, blade.trail, blade.isSwiping));
+
+    // Draw blade trails, one colour per hand
+    blades.forEach(blade => drawBladeTrail(ctx, bladePath(blade), blade.isSwiping, bladePalette(blade.id)));
 
     // Draw finger indicator (hand tracking mode only)
     if (!useMouseFallback) {
-      drawFingerIndicator(ctx, fingerPosition.x, fingerPosition.y, fingerPosition.isTracking);
+      drawFingerIndicator(ctx, fingerPosition.x, fingerPosition.y, fingerPosition.isTracking, bladeArmed);
     }
 
     // Draw score popups
     scorePopups.forEach(popup => {
-      const age = (Date.now() - popup.createdAt) / 1000;
-      const alpha = Math.max(0, 1 - age);
+      const age = (time - popup.createdAt) / 1000;
+      const opacity = Math.max(0, 1 - age);
       const y = popup.y - age * 80;
       const scale = 1 + age * 0.3;
 
       ctx.save();
-      ctx.globalAlpha = alpha;
+      ctx.globalAlpha = opacity;
       ctx.translate(popup.x, y);
       ctx.scale(scale, scale);
 
@@ -173,13 +212,31 @@ export function GameCanvas({
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
 
+      // "N FRUIT COMBO" for several fruit in one stroke
+      if (popup.type === 'strokeBonus') {
+        ctx.font = 'bold 44px Bangers, cursive';
+        ctx.fillStyle = '#000';
+        ctx.fillText(`${popup.fruitCount} FRUIT COMBO`, 3, 3);
+        ctx.fillStyle = '#FFA726';
+        ctx.fillText(`${popup.fruitCount} FRUIT COMBO`, 0, 0);
+
+        ctx.font = 'bold 28px Bangers, cursive';
+        ctx.fillStyle = '#FFD700';
+        ctx.fillText(`+${popup.score}`, 0, 36);
+        ctx.restore();
+        return;
+      }
+
+      // Penalties (arcade bombs) come through as negative scores
+      const label = popup.score < 0 ? `${popup.score}` : `+${popup.score}`;
+
       // Shadow
       ctx.fillStyle = '#000';
-      ctx.fillText(`+${popup.score}`, 3, 3);
+      ctx.fillText(label, 3, 3);
 
-      // Main text - gold for normal, red for combo
-      ctx.fillStyle = popup.isCombo ? '#FF6B6B' : '#FFD700';
-      ctx.fillText(`+${popup.score}`, 0, 0);
+      // Main text - gold for normal, red for combo, grey for a penalty
+      ctx.fillStyle = popup.score < 0 ? '#9CA3AF' : popup.isCombo ? '#FF6B6B' : '#FFD700';
+      ctx.fillText(label, 0, 0);
 
       // Combo label
       if (popup.isCombo) {
@@ -191,6 +248,19 @@ export function GameCanvas({
       ctx.restore();
     });
 
+    // Ghost score ticker, under the HUD on the right
+    if (ghost) {
+      ctx.save();
+      ctx.font = 'bold 28px Bangers, cursive';
+      ctx.textAlign = 'right';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = '#000';
+      ctx.fillText(`GHOST ${ghost.score}`, width - 18, 82);
+      ctx.fillStyle = 'rgba(233, 213, 255, 0.85)';
+      ctx.fillText(`GHOST ${ghost.score}`, width - 20, 80);
+      ctx.restore();
+    }
+
     // Draw active effect overlay
     if (activeEffect) {
       ctx.save();
@@ -202,10 +272,14 @@ export function GameCanvas({
         // Blue tint overlay
         ctx.fillStyle = 'rgba(135, 206, 235, 0.15)';
         ctx.fillRect(0, 0, width, height);
+      } else if (activeEffect === 'doubleScore') {
+        // Warm red tint overlay
+        ctx.fillStyle = 'rgba(255, 23, 68, 0.08)';
+        ctx.fillRect(0, 0, width, height);
       }
       ctx.restore();
     }
-  }, [width, height, fruits, bombs, specialFruits, slicedFruits, particles, scorePopups, trail, fingerPosition, isSwiping, useMouseFallback, activeEffect]);
+  }, [width, height, fruits, bombs, specialFruits, slicedFruits, particles, scorePopups, blades, fingerPosition, bladeArmed, useMouseFallback, activeEffect, ghost, getRenderClock]);
 
   // Animation loop
   useEffect(() => {
@@ -1,13 +1,28 @@
 /**
  * GameHUD - Heads-up display showing score, combo, and lives
  * Styled to match authentic Fruit Ninja arcade aesthetic
+ * The current mode picks which widgets are shown
  */
 
 import { GameStats } from '@/types/game';
-import { X } from 'lucide-react';
+import { HudWidget } from '@/engine/modes';
+import { X, Timer } from 'lucide-react';
 
 interface GameHUDProps {
   stats: GameStats;
+  // ms left on the run timer, null for untimed modes
+  timeRemaining?: number | null;
+  widgets?: HudWidget[];
+  maxLives?: number;
+}
+
+const DEFAULT_WIDGETS: HudWidget[] = ['score', 'combo', 'best', 'lives'];
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
 // Combo text based on combo count
@@ -19,8 +34,11 @@ function getComboText(combo: number): string | null {
   return null;
 }
 
-export function GameHUD({ stats }: GameHUDProps) {
+export function GameHUD({ stats, timeRemaining = null, widgets = DEFAULT_WIDGETS, maxLives = 3 }: GameHUDProps) {
   const comboText = getComboText(stats.combo);
+  const shows = (widget: HudWidget) => widgets.includes(widget);
+  const isTimed = timeRemaining !== null && shows('timer');
+  const isRunningOut = isTimed && timeRemaining <= 10000;
 
   return (
     <>
@@ -29,17 +47,21 @@ export function GameHUD({ stats }: GameHUDProps) {
         <div className="flex justify-between items-start max-w-4xl mx-auto">
           {/* Score - Left side */}
           <div className="flex items-center gap-3">
-            <div className="w-12 h-12 rounded-full bg-gradient-to-br from-game-red to-red-900 flex items-center justify-center shadow-lg border-2 border-yellow-400">
-              <span className="text-2xl">🍎</span>
-            </div>
-            <span className="score-text text-5xl text-primary drop-shadow-lg">
-              {stats.score}
-            </span>
+            {shows('score') && (
+              <>
+                <div className="w-12 h-12 rounded-full bg-gradient-to-br from-game-red to-red-900 flex items-center justify-center shadow-lg border-2 border-yellow-400">
+                  <span className="text-2xl">🍎</span>
+                </div>
+                <span className="score-text text-5xl text-primary drop-shadow-lg">
+                  {stats.score}
+                </span>
+              </>
+            )}
           </div>
 
           {/* Combo - Center */}
           <div className="text-center">
-            {comboText && (
+            {shows('combo') && comboText && (
               <div 
                 key={stats.combo} 
                 className="combo-text text-3xl mb-1"
@@ -48,9 +70,11 @@ export function GameHUD({ stats }: GameHUDProps) {
                 {stats.combo}x {comboText}
               </div>
             )}
-            <div className="text-muted-foreground text-sm font-game tracking-wider">
-              BEST: {stats.highScore}
-            </div>
+            {shows('best') && (
+              <div className="text-muted-foreground text-sm font-game tracking-wider">
+                BEST: {stats.highScore}
+              </div>
+            )}
           </div>
 
           {/* Empty spacer for symmetry - lives moved to fixed position */}
@@ -58,24 +82,41 @@ export function GameHUD({ stats }: GameHUDProps) {
         </div>
       </div>
 
-      {/* Lives - Fixed Top Right (X marks like original - BLUE when unused, RED when lost) */}
-      <div className="fixed top-4 right-4 flex gap-2 z-40 pointer-events-none">
-        {Array.from({ length: 3 }).map((_, i) => (
-          <X
-            key={i}
-            size={40}
-            strokeWidth={5}
-            style={{
-              color: i >= stats.lives ? '#ef4444' : '#3b82f6',
-              filter: i >= stats.lives 
-                ? 'drop-shadow(0 0 10px rgba(239, 68, 68, 0.9))' 
-                : 'drop-shadow(0 0 6px rgba(59, 130, 246, 0.6))',
-              opacity: i >= stats.lives ? 1 : 0.8,
-              transition: 'all 0.3s ease',
-            }}
-          />
-        ))}
-      </div>
+      {/* Countdown - Top Right for timed modes, pulses red for the last 10 seconds */}
+      {isTimed && (
+        <div
+          className={`absolute top-4 right-4 flex items-center gap-2 z-40 pointer-events-none ${isRunningOut ? 'animate-pulse' : ''}`}
+        >
+          <Timer size={36} strokeWidth={3} style={{ color: isRunningOut ? '#ef4444' : '#facc15' }} />
+          <span
+            className="score-text text-5xl drop-shadow-lg"
+            style={{ color: isRunningOut ? '#ef4444' : '#facc15' }}
+          >
+            {formatTime(timeRemaining)}
+          </span>
+        </div>
+      )}
+
+      {/* Lives - Top Right (X marks like original - BLUE when unused, RED when lost) */}
+      {!isTimed && shows('lives') && (
+        <div className="absolute top-4 right-4 flex gap-2 z-40 pointer-events-none">
+          {Array.from({ length: maxLives }).map((_, i) => (
+            <X
+              key={i}
+              size={40}
+              strokeWidth={5}
+              style={{
+                color: i >= stats.lives ? '#ef4444' : '#3b82f6',
+                filter: i >= stats.lives 
+                  ? 'drop-shadow(0 0 10px rgba(239, 68, 68, 0.9))' 
+                  : 'drop-shadow(0 0 6px rgba(59, 130, 246, 0.6))',
+                opacity: i >= stats.lives ? 1 : 0.8,
+                transition: 'all 0.3s ease',
+              }}
+            />
+          ))}
+        </div>
+      )}
     </>
   );
 }
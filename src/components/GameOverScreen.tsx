@@ -3,14 +3,19 @@
  * Styled to match authentic Fruit Ninja aesthetic
  */
 
-import { GameStats } from '@/types/game';
-import { Trophy, RotateCcw, Home, Star } from 'lucide-react';
+import { GameStats, GameMode } from '@/types/game';
+import { getGameMode } from '@/engine/modes';
+import { Trophy, RotateCcw, Home, Star, Film } from 'lucide-react';
 import { GestureButton } from './GestureButton';
 
 interface GameOverScreenProps {
   stats: GameStats;
+  mode: GameMode;
+  seed: number;
   onRestart: () => void;
   onMenu: () => void;
+  // Shown once the run's replay has been stored
+  onWatchReplay?: () => void;
   handPosition: { x: number; y: number; isTracking: boolean };
 }
 
@@ -22,7 +27,7 @@ function getStarRating(score: number): number {
   return 0;
 }
 
-export function GameOverScreen({ stats, onRestart, onMenu, handPosition }: GameOverScreenProps) {
+export function GameOverScreen({ stats, mode, seed, onRestart, onMenu, onWatchReplay, handPosition }: GameOverScreenProps) {
   const isNewHighScore = stats.score >= stats.highScore && stats.score > 0;
   const stars = getStarRating(stats.score);
 
@@ -30,7 +35,9 @@ export function GameOverScreen({ stats, onRestart, onMenu, handPosition }: GameO
     <div className="game-over-overlay absolute inset-0 flex flex-col items-center justify-center z-20 bg-black/70">
       {/* Game Over Title */}
       <div className="text-center mb-4">
-        <h1 className="game-title text-5xl sm:text-7xl text-destructive mb-2">GAME OVER</h1>
+        <h1 className="game-title text-5xl sm:text-7xl text-destructive mb-2">
+          {getGameMode(mode).duration === null ? 'GAME OVER' : "TIME'S UP!"}
+        </h1>
         {isNewHighScore && (
           <div className="flex items-center justify-center gap-2 text-primary animate-pulse">
             <Trophy size={28} className="text-yellow-400" />
@@ -89,6 +96,12 @@ export function GameOverScreen({ stats, onRestart, onMenu, handPosition }: GameO
             <span className="text-muted-foreground font-game text-sm">HIGH SCORE</span>
             <span className="font-game text-primary text-xl">{stats.highScore}</span>
           </div>
+
+          {/* Seed - type it on the menu to replay the same fruit sequence */}
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground font-game text-sm">SEED</span>
+            <span className="font-mono text-foreground text-base select-text">{seed}</span>
+          </div>
         </div>
       </div>
 
@@ -103,6 +116,17 @@ export function GameOverScreen({ stats, onRestart, onMenu, handPosition }: GameO
           PLAY AGAIN
         </GestureButton>
 
+        {onWatchReplay && (
+          <GestureButton
+            onActivate={onWatchReplay}
+            handPosition={handPosition}
+            className="wood-button px-8 py-4 flex items-center gap-2 text-xl font-game"
+          >
+            <Film size={22} />
+            REPLAY
+          </GestureButton>
+        )}
+
         <GestureButton
           onActivate={onMenu}
           handPosition={handPosition}
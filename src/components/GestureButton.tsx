@@ -104,11 +104,21 @@ export function GestureButton({
     };
   }, [isHovering, disabled, dwellTime, onActivate]);
 
+  // A click (or a fist confirming the hovered button) counts as this hover's activation,
+  // so the dwell timer doesn't fire it a second time
   const handleClick = useCallback(() => {
-    if (!disabled) {
-      onActivate();
+    if (disabled) return;
+    if (isHovering) {
+      hasActivatedRef.current = true;
+      if (timerRef.current) {
+        cancelAnimationFrame(timerRef.current);
+        timerRef.current = null;
+      }
+      startTimeRef.current = null;
+      setProgress(0);
     }
-  }, [disabled, onActivate]);
+    onActivate();
+  }, [disabled, isHovering, onActivate]);
 
   return (
     <button
@@ -0,0 +1,112 @@
+/**
+ * InputSettingsPanel - Order the input sources by priority, and choose when a hand's blade cuts
+ * Every source slices at once; when several are in use, the highest one moves the cursor
+ */
+
+import { X, ArrowUp, Hand, MousePointer2, Gamepad2, LucideIcon } from 'lucide-react';
+import { GestureButton } from './GestureButton';
+import { InputKind } from '@/input/InputSource';
+import { BladeArming, BLADE_ARMING_OPTIONS } from '@/input/MediaPipeSource';
+
+interface InputSettingsPanelProps {
+  priority: InputKind[];
+  onChange: (priority: InputKind[]) => void;
+  arming: BladeArming;
+  onArmingChange: (arming: BladeArming) => void;
+  onClose: () => void;
+  handPosition: { x: number; y: number; isTracking: boolean };
+}
+
+const ARMING_LABELS: Record<BladeArming, string> = {
+  always: 'ALWAYS',
+  point: 'WHILE POINTING',
+  pinch: 'WHILE PINCHING',
+};
+
+const INPUT_LABELS: Record<InputKind, { name: string; icon: LucideIcon }> = {
+  hand: { name: 'Hand tracking', icon: Hand },
+  pointer: { name: 'Mouse / touch / pen', icon: MousePointer2 },
+  gamepad: { name: 'Gamepad', icon: Gamepad2 },
+};
+
+export function InputSettingsPanel({ priority, onChange, arming, onArmingChange, onClose, handPosition }: InputSettingsPanelProps) {
+  const moveUp = (index: number) => {
+    const next = [...priority];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-30 bg-black/70 backdrop-blur-sm">
+      <div className="bg-card/90 rounded-2xl p-6 border border-border shadow-2xl flex flex-col gap-4 max-w-md">
+        <div className="flex items-center justify-between w-full">
+          <h2 className="font-game text-2xl text-primary">INPUT</h2>
+          <GestureButton
+            onActivate={onClose}
+            handPosition={handPosition}
+            aria-label="Close"
+            className="p-2 rounded-lg text-muted-foreground hover:text-foreground"
+          >
+            <X size={20} />
+          </GestureButton>
+        </div>
+
+        <p className="text-muted-foreground text-sm">
+          Every source can slice. When more than one is in use, the highest one here moves the cursor.
+        </p>
+
+        <div className="flex flex-col gap-2">
+          {priority.map((kind, i) => {
+            const { name, icon: Icon } = INPUT_LABELS[kind];
+            return (
+              <div
+                key={kind}
+                className="flex items-center gap-3 px-3 py-2 rounded-lg border border-border bg-card/80 font-game text-sm text-foreground"
+              >
+                <span className="text-primary w-4">{i + 1}</span>
+                <Icon size={16} />
+                <span className="flex-1">{name}</span>
+                {i > 0 && (
+                  <GestureButton
+                    onActivate={() => moveUp(i)}
+                    handPosition={handPosition}
+                    aria-label={`Move ${name} up`}
+                    className="p-1 rounded-lg text-muted-foreground hover:text-foreground"
+                  >
+                    <ArrowUp size={16} />
+                  </GestureButton>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Armed blades stop the hand cutting on its way back to the middle */}
+        <div className="space-y-2">
+          <p className="text-muted-foreground font-game text-xs uppercase">Hand blade cuts</p>
+          <div className="flex gap-2">
+            {BLADE_ARMING_OPTIONS.map(option => (
+              <GestureButton
+                key={option}
+                onActivate={() => onArmingChange(option)}
+                handPosition={handPosition}
+                className={`px-3 py-2 rounded-lg border font-game text-sm ${
+                  option === arming ? 'bg-primary text-primary-foreground border-primary' : 'bg-card/80 border-border text-foreground'
+                }`}
+              >
+                {ARMING_LABELS[option]}
+              </GestureButton>
+            ))}
+          </div>
+          {arming !== 'always' && (
+            <p className="text-muted-foreground text-xs">
+              {arming === 'point'
+                ? 'Only the index finger out, the rest curled'
+                : 'Thumb and index fingertips together'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,35 +1,69 @@
-import { useState, useEffect } from 'react';
-import { Hand, MousePointer2, Camera } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Hand, MousePointer2, Camera, CalendarDays, Ghost, Swords, Crosshair, Settings, Gamepad2, RefreshCw } from 'lucide-react';
 import { GestureButton } from './GestureButton';
+import { DailyCalendar } from './DailyCalendar';
+import { parseSeed } from '@/utils/random';
+import { DailyHistory, dayKey } from '@/utils/daily';
+import { loadReplays } from '@/utils/replayStorage';
+import { GameMode } from '@/types/game';
+import { listGameModes } from '@/engine/modes';
+import { HandAssignment } from '@/engine/versus';
+import { InputKind } from '@/input/InputSource';
+import { MAX_RECOVERY_ATTEMPTS, TrackingStatus, isCameraInUse, isTrackingStarting } from '@/input/trackingLifecycle';
 
 interface MenuScreenProps {
-  onStart: () => void;
-  highScore: number;
-  isLoading: boolean;
-  permissionDenied: boolean;
+  onStart: (mode: GameMode, seed?: number) => void;
+  highScores: Record<GameMode, number>;
+  onStartDaily: () => void;
+  // Race the best stored replay of a mode
+  onRaceGhost: (mode: GameMode) => void;
+  // Split-screen match for two players on one camera
+  onStartVersus: (assignment: HandAssignment) => void;
+  // Play-area calibration for the active profile
+  onCalibrate: () => void;
+  profile: string;
+  isCalibrated: boolean;
+  // Camera device, resolution and frame rate
+  onOpenCameraSettings: () => void;
+  // Which input source moves the cursor when several are in use
+  onOpenInputSettings: () => void;
+  inputPriority: InputKind[];
+  dailyHistory: DailyHistory;
+  tracking: TrackingStatus;
   useMouseFallback: boolean;
   onEnableMouseFallback: () => void;
   onRequestCamera: () => void;
   handDetected?: boolean;
   handPosition: { x: number; y: number; isTracking: boolean };
-  cameraAttempted?: boolean;
-  initError?: string | null;
 }
 
 export function MenuScreen({
   onStart,
-  highScore,
-  isLoading,
-  permissionDenied,
+  highScores,
+  onStartDaily,
+  onRaceGhost,
+  onStartVersus,
+  onCalibrate,
+  profile,
+  isCalibrated,
+  onOpenCameraSettings,
+  onOpenInputSettings,
+  inputPriority,
+  dailyHistory,
+  tracking,
   useMouseFallback,
   onEnableMouseFallback,
   onRequestCamera,
   handDetected = false,
   handPosition,
-  cameraAttempted = false,
-  initError = null,
 }: MenuScreenProps) {
   const [showInstructions, setShowInstructions] = useState(true);
+  const [seedInput, setSeedInput] = useState('');
+  const [showDailyHistory, setShowDailyHistory] = useState(false);
+  const [versusAssignment, setVersusAssignment] = useState<HandAssignment>('side');
+  const today = dailyHistory[dayKey(new Date())];
+  // Modes with a stored run to race against
+  const [ghostModes] = useState(() => new Set(loadReplays().map(replay => replay.mode)));
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -38,8 +72,13 @@ export function MenuScreen({
     return () => clearInterval(timer);
   }, []);
 
+  const isLoading = isTrackingStarting(tracking.state);
   const canPlay = !isLoading && (useMouseFallback || handDetected);
 
+  const handleStart = useCallback((mode: GameMode) => {
+    onStart(mode, parseSeed(seedInput) ?? undefined);
+  }, [onStart, seedInput]);
+
   return (
     <div className="absolute inset-0 flex flex-col items-center justify-center z-20 bg-black/50 backdrop-blur-sm">
       {/* Colorful Fruit Ninja Title */}
@@ -117,33 +156,31 @@ export function MenuScreen({
         <p className="text-lg mt-2 text-yellow-400 font-bold tracking-widest">CV EDITION</p>
       </div>
 
-      {/* High Score */}
-      {highScore > 0 && (
-        <div className="mb-8 text-center">
-          <p className="text-muted-foreground text-lg font-game">BEST SCORE</p>
-          <p className="score-text text-4xl text-primary">{highScore}</p>
-        </div>
-      )}
-
       {/* Status/Instructions */}
       <div className="mb-8 text-center min-h-[120px]">
         {isLoading ? (
           <div className="flex flex-col items-center gap-4">
             <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin" />
-            <p className="text-foreground font-bold text-lg">Initializing camera...</p>
-            <p className="text-muted-foreground text-sm">Please allow camera access when prompted</p>
+            {tracking.state === 'requesting' ? (
+              <>
+                <p className="text-foreground font-bold text-lg">Initializing camera...</p>
+                <p className="text-muted-foreground text-sm">Please allow camera access when prompted</p>
+              </>
+            ) : (
+              <p className="text-foreground font-bold text-lg">Loading hand tracking...</p>
+            )}
           </div>
-        ) : cameraAttempted && (permissionDenied || initError) && !useMouseFallback ? (
+        ) : tracking.state === 'failed' && !useMouseFallback ? (
           // Camera was attempted but failed - show failure message with retry option
           <div className="bg-card/80 p-4 rounded-lg max-w-md backdrop-blur-sm">
             <p className="text-destructive font-bold text-lg mb-2">
-              {permissionDenied ? 'Camera Permission Denied' : 'Camera Setup Failed'}
+              {tracking.permissionDenied ? 'Camera Permission Denied' : 'Camera Setup Failed'}
             </p>
             <p className="text-muted-foreground text-sm mb-4">
-              {initError || 'An error occurred while setting up the camera.'}
+              {tracking.error || 'An error occurred while setting up the camera.'}
             </p>
             <div className="flex flex-col gap-3">
-              {!permissionDenied && (
+              {!tracking.permissionDenied && (
                 <GestureButton
                   onActivate={onRequestCamera}
                   handPosition={handPosition}
@@ -164,7 +201,7 @@ export function MenuScreen({
               </GestureButton>
             </div>
           </div>
-        ) : permissionDenied && !useMouseFallback ? (
+        ) : tracking.state === 'idle' && !useMouseFallback ? (
           // Initial state - show enable camera option
           <div className="bg-card/80 p-4 rounded-lg max-w-md backdrop-blur-sm">
             <p className="text-destructive font-bold text-lg mb-2">Camera Access Required</p>
@@ -202,11 +239,29 @@ export function MenuScreen({
               Hold mouse/touch and swipe across fruits to slice them. Avoid the bombs!
             </p>
           </div>
+        ) : tracking.state === 'lost' || tracking.state === 'recovering' ? (
+          <div className="flex flex-col items-center gap-4">
+            <RefreshCw size={48} className="text-yellow-400 animate-spin" />
+            <p className="text-yellow-400 font-bold text-lg">{tracking.error ?? 'Camera lost'} - reconnecting...</p>
+            <p className="text-muted-foreground text-sm max-w-xs">
+              {tracking.attempt > 0 ? `Attempt ${tracking.attempt} of ${MAX_RECOVERY_ATTEMPTS}` : 'Check the camera is plugged in'}
+            </p>
+            <button
+              onClick={onEnableMouseFallback}
+              className="text-sm text-muted-foreground underline hover:text-foreground mt-2"
+            >
+              Or use mouse/touch instead
+            </button>
+          </div>
         ) : !handDetected ? (
           <div className="flex flex-col items-center gap-4">
             <Hand size={48} className="text-yellow-400 animate-pulse" />
             <p className="text-yellow-400 font-bold text-lg animate-pulse">Show your hand to the camera...</p>
-            <p className="text-muted-foreground text-sm max-w-xs">Point your index finger at the camera to start</p>
+            <p className="text-muted-foreground text-sm max-w-xs">
+              {tracking.state === 'degraded'
+                ? `${tracking.error ?? 'Tracking is struggling'} - waiting for the camera`
+                : 'Point your index finger at the camera to start'}
+            </p>
             <button
               onClick={onEnableMouseFallback}
               className="text-sm text-muted-foreground underline hover:text-foreground mt-2"
@@ -230,15 +285,155 @@ export function MenuScreen({
         )}
       </div>
 
-      {/* Start Button - only show when ready */}
+      {/* Mode Buttons - only show when ready */}
+      {canPlay && (
+        <div className="flex flex-wrap justify-center gap-6">
+          {listGameModes().filter(definition => !definition.hidden).map((definition, i) => (
+            <div key={definition.id} className="flex flex-col items-center gap-2">
+              <GestureButton
+                onActivate={() => handleStart(definition.id)}
+                handPosition={handPosition}
+                className={`wood-button px-10 py-5 text-2xl font-game tracking-wide ${i === 0 ? 'animate-pulse-glow' : ''}`}
+              >
+                {definition.name}
+              </GestureButton>
+              <p className="text-muted-foreground text-xs font-game">{definition.tagline}</p>
+              {highScores[definition.id] > 0 && (
+                <p className="font-game text-primary text-lg">BEST: {highScores[definition.id]}</p>
+              )}
+              {ghostModes.has(definition.id) && (
+                <GestureButton
+                  onActivate={() => onRaceGhost(definition.id)}
+                  handPosition={handPosition}
+                  className="px-3 py-1 rounded-lg bg-card/80 border border-border font-game text-sm text-foreground flex items-center gap-1"
+                >
+                  <Ghost size={14} />
+                  RACE GHOST
+                </GestureButton>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Daily challenge - seeded by the date, ignores the seed box */}
       {canPlay && (
-        <GestureButton
-          onActivate={onStart}
+        <div className="flex flex-col items-center gap-2 mt-6">
+          <div className="flex items-center gap-3">
+            <GestureButton
+              onActivate={onStartDaily}
+              handPosition={handPosition}
+              className="wood-button px-6 py-3 text-xl font-game tracking-wide flex items-center gap-2"
+            >
+              <CalendarDays size={20} />
+              DAILY CHALLENGE
+            </GestureButton>
+            <GestureButton
+              onActivate={() => setShowDailyHistory(true)}
+              handPosition={handPosition}
+              className="px-4 py-3 rounded-xl bg-card/80 border border-border font-game text-sm text-foreground"
+            >
+              HISTORY
+            </GestureButton>
+          </div>
+          <p className="text-muted-foreground text-xs font-game">
+            {today
+              ? `Today: ${today.attempts} ${today.attempts === 1 ? 'attempt' : 'attempts'} • best ${today.best}`
+              : 'Same fruit for everyone today'}
+          </p>
+        </div>
+      )}
+
+      {/* Versus - one hand per player, split down the middle */}
+      {canPlay && (
+        <div className="flex flex-col items-center gap-2 mt-6">
+          <div className="flex items-center gap-3">
+            <GestureButton
+              onActivate={() => onStartVersus(versusAssignment)}
+              handPosition={handPosition}
+              className="wood-button px-6 py-3 text-xl font-game tracking-wide flex items-center gap-2"
+            >
+              <Swords size={20} />
+              VERSUS
+            </GestureButton>
+            <GestureButton
+              onActivate={() => setVersusAssignment(prev => (prev === 'side' ? 'handedness' : 'side'))}
+              handPosition={handPosition}
+              className="px-4 py-3 rounded-xl bg-card/80 border border-border font-game text-sm text-foreground"
+            >
+              {versusAssignment === 'side' ? 'BY SIDE' : 'LEFT VS RIGHT HAND'}
+            </GestureButton>
+          </div>
+          <p className="text-muted-foreground text-xs font-game">
+            {versusAssignment === 'side'
+              ? 'Each player slices on their own half'
+              : 'P1 plays left-handed, P2 right-handed'}
+          </p>
+        </div>
+      )}
+
+      {showDailyHistory && (
+        <DailyCalendar
+          history={dailyHistory}
+          onClose={() => setShowDailyHistory(false)}
           handPosition={handPosition}
-          className="wood-button px-10 py-5 text-2xl font-game tracking-wide animate-pulse-glow"
-        >
-          START GAME
-        </GestureButton>
+        />
+      )}
+
+      {/* Optional seed - same seed plays the same fruit sequence */}
+      {canPlay && (
+        <input
+          type="text"
+          value={seedInput}
+          onChange={(e) => setSeedInput(e.target.value)}
+          placeholder="Seed (optional)"
+          aria-label="Seed"
+          className="mt-6 w-48 px-3 py-2 rounded-lg bg-card/80 border border-border text-center font-mono text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      )}
+
+      {/* Camera setup only matters for hand tracking. The camera picker shows even
+          before a hand is seen - the wrong camera may be the reason it isn't */}
+      {isCameraInUse(tracking.state) && !useMouseFallback && (
+        <div className="flex items-center gap-3 mt-6">
+          <GestureButton
+            onActivate={onOpenCameraSettings}
+            handPosition={handPosition}
+            className="px-4 py-2 rounded-xl bg-card/80 border border-border font-game text-sm text-foreground flex items-center gap-2"
+          >
+            <Settings size={16} />
+            CAMERA
+          </GestureButton>
+          {canPlay && (
+            <>
+              <GestureButton
+                onActivate={onCalibrate}
+                handPosition={handPosition}
+                className="px-4 py-2 rounded-xl bg-card/80 border border-border font-game text-sm text-foreground flex items-center gap-2"
+              >
+                <Crosshair size={16} />
+                CALIBRATE
+              </GestureButton>
+              <p className="text-muted-foreground text-xs font-game">
+                {profile} • {isCalibrated ? 'calibrated' : 'full camera frame'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      {canPlay && (
+        <div className="flex items-center gap-3 mt-3">
+          <GestureButton
+            onActivate={onOpenInputSettings}
+            handPosition={handPosition}
+            className="px-4 py-2 rounded-xl bg-card/80 border border-border font-game text-sm text-foreground flex items-center gap-2"
+          >
+            <Gamepad2 size={16} />
+            INPUT
+          </GestureButton>
+          <p className="text-muted-foreground text-xs font-game uppercase">{inputPriority.join(' › ')}</p>
+        </div>
       )}
 
       {/* Mode indicator */}
@@ -0,0 +1,65 @@
+/**
+ * PauseOverlay - Shown while a run is frozen
+ * Resume and menu are gesture buttons so the player can answer with their finger
+ */
+
+import { Play, Home } from 'lucide-react';
+import { GestureButton } from './GestureButton';
+import { PauseReason } from '@/hooks/useAutoPause';
+
+interface PauseOverlayProps {
+  // Left out when there is no single score to show, e.g. in versus
+  score?: number;
+  reason: PauseReason;
+  onResume: () => void;
+  onMenu: () => void;
+  handPosition: { x: number; y: number; isTracking: boolean };
+}
+
+const REASON_TEXT: Record<PauseReason, string> = {
+  manual: 'Take a breather',
+  hidden: 'Paused while the tab was hidden',
+  blur: 'Paused while the window was in the background',
+  handLost: "We lost sight of your hand",
+};
+
+export function PauseOverlay({ score, reason, onResume, onMenu, handPosition }: PauseOverlayProps) {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-20 bg-black/60 backdrop-blur-sm">
+      <h1 className="game-title text-6xl sm:text-7xl text-primary mb-2">PAUSED</h1>
+      <p className="text-muted-foreground font-game text-lg mb-2">{REASON_TEXT[reason]}</p>
+      {score !== undefined && <p className="score-text text-4xl text-primary mb-8">{score}</p>}
+
+      <div className="flex gap-4">
+        <GestureButton
+          onActivate={onResume}
+          handPosition={handPosition}
+          className="wood-button px-8 py-4 flex items-center gap-2 text-xl font-game"
+        >
+          <Play size={22} />
+          RESUME
+        </GestureButton>
+
+        <GestureButton
+          onActivate={onMenu}
+          handPosition={handPosition}
+          className="px-8 py-4 flex items-center gap-2 text-xl font-game rounded-xl"
+          style={{
+            background: 'linear-gradient(180deg, #6b7280 0%, #4b5563 50%, #374151 100%)',
+            border: '3px solid #1f2937',
+            boxShadow: 'inset 0 2px 0 rgba(255,255,255,0.2), 0 4px 0 #111827, 0 6px 12px rgba(0,0,0,0.4)',
+            color: '#f3f4f6',
+            textShadow: '1px 2px 0 #111827',
+          }}
+        >
+          <Home size={22} />
+          MENU
+        </GestureButton>
+      </div>
+
+      <p className="text-muted-foreground text-xs mt-6 opacity-60">
+        Hold your finger over a button to activate it • Press Esc or P to resume
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * TrackingDebugOverlay - Tuning panel for fingertip smoothing and prediction
+ * Raw landmarks are drawn in red, the smoothed path the game uses in cyan;
+ * measured latency sits next to the lookahead that makes up for it.
+ * Landmarks can be recorded from here to replay in tests.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Slider } from '@/components/ui/slider';
+import { FilterSample, TrackingLatency } from '@/hooks/useHandTracking';
+import { OneEuroSettings, DEFAULT_FILTER_SETTINGS } from '@/utils/oneEuroFilter';
+import { DEFAULT_LOOKAHEAD_MS, MAX_LOOKAHEAD_MS } from '@/utils/bladePrediction';
+
+interface TrackingDebugOverlayProps {
+  width: number;
+  height: number;
+  getSamples: () => FilterSample[];
+  settings: OneEuroSettings;
+  onChange: (settings: OneEuroSettings) => void;
+  lookaheadMs: number;
+  onLookaheadChange: (ms: number) => void;
+  getLatency: () => TrackingLatency;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+}
+
+const RAW_COLOR = '#ef4444';
+const FILTERED_COLOR = '#60DFFF';
+
+function drawPath(ctx: CanvasRenderingContext2D, points: Array<{ x: number; y: number }>, color: string): void {
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.stroke();
+
+  points.forEach(point => {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 3, 0, Math.PI * 2);
+    ctx.fill();
+  });
+}
+
+export function TrackingDebugOverlay({
+  width,
+  height,
+  getSamples,
+  settings,
+  onChange,
+  lookaheadMs,
+  onLookaheadChange,
+  getLatency,
+  isRecording,
+  onToggleRecording,
+}: TrackingDebugOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [latency, setLatency] = useState(() => ({ ...getLatency() }));
+
+  // The averages live in a ref; a few refreshes a second is plenty to read them
+  useEffect(() => {
+    const timer = setInterval(() => setLatency({ ...getLatency() }), 250);
+    return () => clearInterval(timer);
+  }, [getLatency]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    let animationId: number;
+    const draw = () => {
+      const samples = getSamples();
+      ctx.clearRect(0, 0, width, height);
+      drawPath(ctx, samples.map(sample => sample.raw), RAW_COLOR);
+      drawPath(ctx, samples.map(sample => sample.filtered), FILTERED_COLOR);
+      animationId = requestAnimationFrame(draw);
+    };
+    animationId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(animationId);
+  }, [width, height, getSamples]);
+
+  return (
+    <>
+      <canvas ref={canvasRef} width={width} height={height} className="absolute inset-0 pointer-events-none z-40" />
+
+      <div className="absolute top-24 left-4 z-50 w-64 rounded-lg bg-card/90 p-4 font-mono text-xs text-foreground space-y-3">
+        <div className="flex justify-between">
+          <span style={{ color: RAW_COLOR }}>● raw</span>
+          <span style={{ color: FILTERED_COLOR }}>● filtered</span>
+        </div>
+
+        <label className="block space-y-1">
+          <span>min cutoff: {settings.minCutoff.toFixed(2)} Hz</span>
+          <Slider
+            value={[settings.minCutoff]}
+            min={0.05}
+            max={5}
+            step={0.05}
+            onValueChange={([minCutoff]) => onChange({ ...settings, minCutoff })}
+          />
+        </label>
+
+        <label className="block space-y-1">
+          <span>beta: {settings.beta.toFixed(3)}</span>
+          <Slider
+            value={[settings.beta]}
+            min={0}
+            max={0.1}
+            step={0.001}
+            onValueChange={([beta]) => onChange({ ...settings, beta })}
+          />
+        </label>
+
+        <label className="block space-y-1">
+          <span>lookahead: {lookaheadMs} ms</span>
+          <Slider
+            value={[lookaheadMs]}
+            min={0}
+            max={MAX_LOOKAHEAD_MS}
+            step={5}
+            onValueChange={([ms]) => onLookaheadChange(ms)}
+          />
+        </label>
+
+        <div className="text-muted-foreground">
+          <p>pipeline latency: {Math.round(latency.pipelineMs)} ms</p>
+          <p>prediction error: {latency.predictionErrorPx.toFixed(1)} px</p>
+        </div>
+
+        <button
+          onClick={() => {
+            onChange(DEFAULT_FILTER_SETTINGS);
+            onLookaheadChange(DEFAULT_LOOKAHEAD_MS);
+          }}
+          className="text-muted-foreground underline hover:text-foreground"
+        >
+          Reset defaults
+        </button>
+
+        <button
+          onClick={onToggleRecording}
+          className={`block underline hover:text-foreground ${isRecording ? 'text-destructive' : 'text-muted-foreground'}`}
+        >
+          {isRecording ? '● Stop and save landmarks' : 'Record landmarks'}
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * TrackingTelemetryOverlay - How well the camera and model are keeping up
+ * The panel sits next to the camera preview; every fingertip sample is dotted
+ * over the game so gaps between them show, with each hand's label beside it
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { TelemetrySnapshot } from '@/input/trackingTelemetry';
+import { TrackingState } from '@/input/trackingLifecycle';
+
+interface TrackingTelemetryOverlayProps {
+  width: number;
+  height: number;
+  getTelemetry: () => TelemetrySnapshot;
+  lookaheadMs: number;
+  trackingState: TrackingState;
+}
+
+const SAMPLE_COLOR = '#facc15';
+const HAND_COLOR = '#60DFFF';
+// Below these the blade visibly stutters
+const LOW_FPS = 20;
+const HIGH_LATENCY_MS = 100;
+
+function Row({ label, value, warn = false }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <p className="flex justify-between gap-4">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={warn ? 'text-destructive' : undefined}>{value}</span>
+    </p>
+  );
+}
+
+export function TrackingTelemetryOverlay({ width, height, getTelemetry, lookaheadMs, trackingState }: TrackingTelemetryOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [telemetry, setTelemetry] = useState(getTelemetry);
+
+  // The numbers only need to be readable, not per-frame
+  useEffect(() => {
+    const timer = setInterval(() => setTelemetry(getTelemetry()), 250);
+    return () => clearInterval(timer);
+  }, [getTelemetry]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    let animationId: number;
+    const draw = () => {
+      const { tips, hands } = getTelemetry();
+      ctx.clearRect(0, 0, width, height);
+
+      ctx.fillStyle = SAMPLE_COLOR;
+      tips.forEach(tip => {
+        ctx.beginPath();
+        ctx.arc(tip.x, tip.y, 3, 0, Math.PI * 2);
+        ctx.fill();
+      });
+
+      ctx.font = '12px monospace';
+      ctx.fillStyle = HAND_COLOR;
+      hands.forEach(hand => {
+        ctx.fillText(`${hand.label} ${Math.round(hand.score * 100)}%`, hand.point.x + 14, hand.point.y - 14);
+      });
+      animationId = requestAnimationFrame(draw);
+    };
+    animationId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(animationId);
+  }, [width, height, getTelemetry]);
+
+  const latencyAfterLookahead = Math.max(0, telemetry.estimatedLatencyMs - lookaheadMs);
+
+  return (
+    <>
+      <canvas ref={canvasRef} width={width} height={height} className="absolute inset-0 pointer-events-none z-40" />
+
+      {/* Next to the camera preview in the bottom left corner */}
+      <div className="fixed bottom-4 left-[232px] z-50 w-60 rounded-lg bg-card/90 p-3 font-mono text-xs text-foreground space-y-0.5 pointer-events-none">
+        <Row label="state" value={trackingState} warn={trackingState !== 'running'} />
+        <Row label="model fps" value={telemetry.fps.toFixed(1)} warn={telemetry.fps > 0 && telemetry.fps < LOW_FPS} />
+        <Row
+          label="inference"
+          value={`${Math.round(telemetry.inferenceMs)} ms (avg ${Math.round(telemetry.averageInferenceMs)})`}
+        />
+        <Row
+          label="hands"
+          value={
+            telemetry.hands.length > 0
+              ? telemetry.hands.map(hand => `${hand.label} ${Math.round(hand.score * 100)}%`).join(', ')
+              : 'none'
+          }
+        />
+        <Row label="no hand" value={`${Math.round(telemetry.noHandFraction * 100)}% of frames`} />
+        <Row
+          label="sample spacing"
+          value={`${telemetry.sampleSpacingPx.toFixed(1)} px / ${Math.round(telemetry.sampleIntervalMs)} ms`}
+        />
+        <Row
+          label="est. latency"
+          value={`${Math.round(telemetry.estimatedLatencyMs)} ms (${Math.round(latencyAfterLookahead)} after lookahead)`}
+          warn={latencyAfterLookahead > HIGH_LATENCY_MS}
+        />
+      </div>
+    </>
+  );
+}
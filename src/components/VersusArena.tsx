@@ -0,0 +1,87 @@
+/**
+ * VersusArena - Split-screen play area for a two player match
+ * Each half draws its own world, blades and HUD side by side
+ */
+
+import { Blade } from '@/types/game';
+import { GameWorldSnapshot } from '@/engine/GameWorld';
+import { GameModeDefinition } from '@/engine/modes';
+import { HandAssignment, bladesForPlayer } from '@/engine/versus';
+import { GameCanvas } from './GameCanvas';
+import { GameHUD } from './GameHUD';
+
+interface VersusArenaProps {
+  width: number;
+  height: number;
+  players: GameWorldSnapshot[];
+  rules: GameModeDefinition;
+  assignment: HandAssignment;
+  blades: Blade[];
+  fingerPosition: { x: number; y: number; isTracking: boolean };
+  bladeArmed: boolean;
+  useMouseFallback: boolean;
+  renderClocks: Array<() => { alpha: number; time: number }>;
+}
+
+const PLAYER_COLORS = ['#60DFFF', '#FF7AD9'];
+
+export function VersusArena({
+  width,
+  height,
+  players,
+  rules,
+  assignment,
+  blades,
+  fingerPosition,
+  bladeArmed,
+  useMouseFallback,
+  renderClocks,
+}: VersusArenaProps) {
+  const halfWidth = Math.floor(width / players.length);
+
+  return (
+    <>
+      {players.map((snapshot, player) => (
+        <div
+          key={player}
+          className="absolute top-0 overflow-hidden"
+          style={{ left: player * halfWidth, width: halfWidth, height }}
+        >
+          <GameCanvas
+            width={halfWidth}
+            height={height}
+            fruits={snapshot.fruits}
+            bombs={snapshot.bombs}
+            specialFruits={snapshot.specialFruits}
+            slicedFruits={snapshot.slicedFruits}
+            particles={snapshot.particles}
+            scorePopups={snapshot.scorePopups}
+            blades={bladesForPlayer(blades, player, width, assignment)}
+            fingerPosition={{ ...fingerPosition, x: fingerPosition.x - player * halfWidth }}
+            bladeArmed={bladeArmed}
+            useMouseFallback={useMouseFallback}
+            activeEffect={snapshot.activeEffect}
+            getRenderClock={renderClocks[player]}
+          />
+          <GameHUD stats={snapshot.stats} widgets={rules.hud} maxLives={rules.lives} />
+
+          <div
+            className="absolute bottom-16 inset-x-0 text-center font-game text-2xl pointer-events-none z-10"
+            style={{ color: PLAYER_COLORS[player], textShadow: '0 2px 0 rgba(0,0,0,0.5)' }}
+          >
+            P{player + 1}
+          </div>
+
+          {snapshot.status === 'gameover' && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/50 pointer-events-none z-10">
+              <span className="game-title text-5xl text-destructive">OUT!</span>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {/* Divider between the halves */}
+      <div className="absolute top-0 bottom-0 w-1 bg-white/40 pointer-events-none z-10" style={{ left: halfWidth - 2 }} />
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * VersusResultsScreen - Winner and side-by-side stats after a versus match
+ * Takes the place of GameOverScreen for split-screen play
+ */
+
+import { GameStats } from '@/types/game';
+import { Trophy, RotateCcw, Home } from 'lucide-react';
+import { GestureButton } from './GestureButton';
+
+interface VersusResultsScreenProps {
+  players: GameStats[];
+  // Index of the winning player, null on a draw
+  winner: number | null;
+  onRematch: () => void;
+  onMenu: () => void;
+  handPosition: { x: number; y: number; isTracking: boolean };
+}
+
+export function VersusResultsScreen({ players, winner, onRematch, onMenu, handPosition }: VersusResultsScreenProps) {
+  return (
+    <div className="game-over-overlay absolute inset-0 flex flex-col items-center justify-center z-20 bg-black/70">
+      <h1 className="game-title text-5xl sm:text-7xl text-primary mb-8">
+        {winner === null ? 'DRAW!' : `PLAYER ${winner + 1} WINS!`}
+      </h1>
+
+      {/* Stats Cards */}
+      <div className="flex gap-6 mb-8">
+        {players.map((stats, player) => (
+          <div
+            key={player}
+            className={`bg-card/90 backdrop-blur-sm rounded-2xl p-6 min-w-[220px] border shadow-2xl ${
+              player === winner ? 'border-yellow-400' : 'border-border'
+            }`}
+          >
+            <div className="flex items-center justify-center gap-2 mb-4">
+              {player === winner && <Trophy size={24} className="text-yellow-400" />}
+              <span className="font-game text-2xl text-foreground">P{player + 1}</span>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground font-game text-lg">SCORE</span>
+                <span className="score-text text-4xl text-primary">{stats.score}</span>
+              </div>
+
+              <div className="h-px bg-border" />
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="text-center">
+                  <p className="text-muted-foreground font-game text-xs uppercase">Fruits</p>
+                  <p className="font-game text-foreground text-2xl">{stats.fruitsSliced}</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-muted-foreground font-game text-xs uppercase">Best Combo</p>
+                  <p className="font-game text-2xl" style={{ color: 'hsl(var(--game-combo))' }}>
+                    {stats.maxCombo}x
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Action Buttons */}
+      <div className="flex gap-4">
+        <GestureButton
+          onActivate={onRematch}
+          handPosition={handPosition}
+          className="wood-button px-8 py-4 flex items-center gap-2 text-xl font-game"
+        >
+          <RotateCcw size={22} />
+          REMATCH
+        </GestureButton>
+
+        <GestureButton
+          onActivate={onMenu}
+          handPosition={handPosition}
+          className="px-8 py-4 flex items-center gap-2 text-xl font-game rounded-xl"
+          style={{
+            background: 'linear-gradient(180deg, #6b7280 0%, #4b5563 50%, #374151 100%)',
+            border: '3px solid #1f2937',
+            boxShadow: 'inset 0 2px 0 rgba(255,255,255,0.2), 0 4px 0 #111827, 0 6px 12px rgba(0,0,0,0.4)',
+            color: '#f3f4f6',
+            textShadow: '1px 2px 0 #111827',
+          }}
+        >
+          <Home size={22} />
+          MENU
+        </GestureButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * EventBus - Minimal typed publish/subscribe
+ * The engine publishes, and audio, HUD and haptics each subscribe independently
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+export class EventBus<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<unknown>>>();
+
+  /** Subscribe to one event type; returns the unsubscribe function */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    const untyped = listener as EventListener<unknown>;
+    set.add(untyped);
+    return () => {
+      set.delete(untyped);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners.get(event)?.forEach(listener => listener(payload));
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+}
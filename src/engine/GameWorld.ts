@@ -0,0 +1,649 @@
+/**
+ * GameWorld - Framework-agnostic Fruit Ninja rules engine
+ * Owns every entity and rule of a single run. Advance it with step() and
+ * listen for typed events; no React, DOM or wall-clock time in here.
+ */
+
+import {
+  Fruit,
+  Bomb,
+  SlicedFruit,
+  Particle,
+  ScorePopup,
+  GameStats,
+  FruitType,
+  GameMode,
+  SpecialFruit,
+  SpecialFruitType,
+  BladeCut,
+  FRUIT_COLORS,
+  FRUIT_POINTS,
+} from '@/types/game';
+import { FIXED_STEP_MS } from '@/utils/fixedTimestep';
+import { Random } from '@/utils/random';
+import { segmentAngle, segmentHitsCircle } from './collision';
+import { GameEventBus, GameEvents, createGameEventBus } from './events';
+import { GameModeDefinition, DEFAULT_GAME_MODE, getGameMode } from './modes';
+
+const PARTICLE_COUNT = 12;
+const PARTICLE_LIFETIME = 600;
+const SLICED_FRUIT_LIFETIME = 1500;
+const SCORE_POPUP_LIFETIME = 1000;
+const COMBO_EVENT_MIN = 3; // Combos from 3x up are announced
+const FRENZY_DURATION = 4000;
+const FREEZE_DURATION = 3000;
+const DOUBLE_SCORE_DURATION = 5000;
+
+const POWER_UP_COLORS: Record<SpecialFruitType, string[]> = {
+  frenzy: ['#FFD700', '#FFA500', '#FF6347', '#FFFF00'],
+  freeze: ['#00FFFF', '#87CEEB', '#ADD8E6', '#E0FFFF'],
+  doubleScore: ['#FF1744', '#FF9100', '#FFEA00', '#FFFFFF'],
+};
+
+const FRUIT_TYPES: FruitType[] = ['apple', 'orange', 'watermelon', 'banana', 'pineapple', 'strawberry'];
+
+interface ParticleBurst {
+  count: number;
+  minSpeed: number;
+  speedRange: number;
+  minSize: number;
+  sizeRange: number;
+  lifetime: number;
+}
+
+const JUICE_BURST: ParticleBurst = {
+  count: PARTICLE_COUNT, minSpeed: 3, speedRange: 5, minSize: 4, sizeRange: 8, lifetime: PARTICLE_LIFETIME,
+};
+const POWER_UP_BURST: ParticleBurst = {
+  count: 20, minSpeed: 4, speedRange: 6, minSize: 6, sizeRange: 10, lifetime: PARTICLE_LIFETIME * 1.5,
+};
+
+export type GameWorldStatus = 'playing' | 'gameover';
+
+interface Stroke {
+  fruitCount: number;
+  // Where the last fruit of the stroke was cut - the bonus pops up there
+  endX: number;
+  endY: number;
+}
+
+export interface GameWorldOptions {
+  width: number;
+  height: number;
+  seed: number;
+  mode?: GameMode;
+  highScore?: number;
+  // Long-lived bus so subscribers survive across runs; a private one is created if omitted
+  events?: GameEventBus;
+}
+
+// Read-only view handed to renderers; arrays are copies, entities are shared
+export interface GameWorldSnapshot {
+  status: GameWorldStatus;
+  time: number;
+  // ms left on the run timer, null for untimed modes
+  timeRemaining: number | null;
+  stats: GameStats;
+  wave: number;
+  activeEffect: SpecialFruitType | null;
+  timeScale: number;
+  fruits: Fruit[];
+  bombs: Bomb[];
+  specialFruits: SpecialFruit[];
+  slicedFruits: SlicedFruit[];
+  particles: Particle[];
+  scorePopups: ScorePopup[];
+}
+
+export class GameWorld {
+  readonly seed: number;
+  readonly mode: GameMode;
+  readonly rules: GameModeDefinition;
+  readonly width: number;
+  readonly height: number;
+
+  private rng: Random;
+  private status: GameWorldStatus = 'playing';
+  private elapsed = 0;
+  private duration: number | null;
+  private stats: GameStats;
+  private wave = 1;
+  private activeEffect: SpecialFruitType | null = null;
+  private effectEndsAt: number | null = null;
+  private timeScale = 1;
+  private lastSpawnAt = 0;
+  private lastSliceAt = 0;
+  private spawnsSinceSpecial = 0;
+  // Open stroke per blade - from the moment it starts swiping until it stops
+  private strokes = new Map<string, Stroke>();
+  // Staggered fruit throws, due on the simulation clock
+  private pendingFruitSpawns: number[] = [];
+
+  private fruits: Fruit[] = [];
+  private bombs: Bomb[] = [];
+  private specialFruits: SpecialFruit[] = [];
+  private slicedFruits: SlicedFruit[] = [];
+  private particles: Particle[] = [];
+  private scorePopups: ScorePopup[] = [];
+
+  readonly events: GameEventBus;
+
+  constructor({ width, height, seed, mode = DEFAULT_GAME_MODE, highScore = 0, events = createGameEventBus() }: GameWorldOptions) {
+    this.events = events;
+    this.width = width;
+    this.height = height;
+    this.seed = seed;
+    this.mode = mode;
+    this.rules = getGameMode(mode);
+    this.duration = this.rules.duration;
+    this.rng = new Random(seed);
+    this.stats = {
+      score: 0,
+      lives: this.rules.lives,
+      combo: 0,
+      maxCombo: 0,
+      fruitsSliced: 0,
+      highScore,
+    };
+  }
+
+  private emit<K extends keyof GameEvents>(event: K, payload: GameEvents[K]): void {
+    this.events.emit(event, payload);
+  }
+
+  /**
+   * Advance the run by dt milliseconds of simulation time.
+   * blades are every blade in play this step with the segments that cut;
+   * a blade missing from the list counts as not swiping.
+   */
+  step(dt: number, blades: BladeCut[]): void {
+    if (this.status !== 'playing') return;
+
+    this.elapsed += dt;
+    // Fixed blade order so the outcome never depends on how input was listed
+    const cuts = [...blades].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    this.updateStrokes(cuts);
+    this.checkCollisions(cuts);
+    if (this.status !== 'playing') return;
+
+    this.flushPendingSpawns();
+    this.expireEffect();
+    this.updateBodies(dt);
+    if (this.status !== 'playing') return;
+
+    if (this.duration !== null && this.elapsed >= this.duration) {
+      this.endRun();
+      return;
+    }
+
+    this.updateSpawning();
+  }
+
+  /** Simulation time since the run started, in ms */
+  get time(): number {
+    return this.elapsed;
+  }
+
+  getSnapshot(): GameWorldSnapshot {
+    return {
+      status: this.status,
+      time: this.elapsed,
+      timeRemaining: this.duration === null ? null : Math.max(0, this.duration - this.elapsed),
+      stats: { ...this.stats },
+      wave: this.wave,
+      activeEffect: this.activeEffect,
+      timeScale: this.timeScale,
+      fruits: [...this.fruits],
+      bombs: [...this.bombs],
+      specialFruits: [...this.specialFruits],
+      slicedFruits: [...this.slicedFruits],
+      particles: [...this.particles],
+      scorePopups: [...this.scorePopups],
+    };
+  }
+
+  // --- Strokes ---
+
+  private updateStrokes(blades: BladeCut[]): void {
+    const swiping = new Set(blades.filter(blade => blade.swiping).map(blade => blade.id));
+
+    this.strokes.forEach((stroke, id) => {
+      if (!swiping.has(id)) {
+        this.strokes.delete(id);
+        this.endStroke(stroke);
+      }
+    });
+    swiping.forEach(id => {
+      if (!this.strokes.has(id)) {
+        this.strokes.set(id, { fruitCount: 0, endX: 0, endY: 0 });
+      }
+    });
+  }
+
+  // Several fruit in one continuous swipe earn a bonus once the swipe ends
+  private endStroke({ fruitCount, endX: x, endY: y }: Stroke): void {
+    if (fruitCount < this.rules.scoring.strokeBonusMin) return;
+
+    this.stats.score += fruitCount;
+    this.stats.highScore = Math.max(this.stats.score, this.stats.highScore);
+    this.scorePopups.push({
+      id: this.rng.id(),
+      type: 'strokeBonus',
+      x,
+      y,
+      score: fruitCount,
+      isCombo: false,
+      fruitCount,
+      createdAt: this.elapsed,
+    });
+    this.emit('strokeBonus', { fruitCount, points: fruitCount, x, y });
+  }
+
+  // --- Collisions ---
+
+  private checkCollisions(blades: BladeCut[]): void {
+    for (const blade of blades) {
+      this.checkBladeCollisions(blade);
+      if (this.status !== 'playing') return;
+    }
+  }
+
+  private checkBladeCollisions(blade: BladeCut): void {
+    for (const segment of blade.segments) {
+      const sliceAngle = segmentAngle(segment);
+
+      // Fruits get a slightly larger hitbox
+      for (const fruit of [...this.fruits]) {
+        if (!fruit.sliced && segmentHitsCircle(segment, fruit.x, fruit.y, fruit.radius * 1.15)) {
+          this.sliceFruit(fruit, sliceAngle, blade.id);
+        }
+      }
+
+      for (const special of [...this.specialFruits]) {
+        if (segmentHitsCircle(segment, special.x, special.y, special.radius * 1.2)) {
+          this.sliceSpecialFruit(special);
+        }
+      }
+
+      // You're immune to bombs during frenzy
+      if (this.activeEffect !== 'frenzy') {
+        const bomb = this.bombs.find(b => !b.sliced && segmentHitsCircle(segment, b.x, b.y, b.radius));
+        if (bomb) {
+          this.sliceBomb(bomb);
+          return;
+        }
+      }
+    }
+  }
+
+  private sliceFruit(fruit: Fruit, sliceAngle: number, bladeId: string): void {
+    // Part of a combo chain if within the window of the last slice
+    const { comboWindow, maxComboMultiplier } = this.rules.scoring;
+    const isPartOfCombo = this.lastSliceAt > 0 && this.elapsed - this.lastSliceAt < comboWindow;
+    this.lastSliceAt = this.elapsed;
+
+    const combo = isPartOfCombo ? this.stats.combo + 1 : 1;
+    const multiplier = this.activeEffect === 'doubleScore' ? 2 : 1;
+    const points = FRUIT_POINTS[fruit.type] * Math.min(combo, maxComboMultiplier) * multiplier;
+
+    this.stats.score += points;
+    this.stats.combo = combo;
+    this.stats.maxCombo = Math.max(combo, this.stats.maxCombo);
+    this.stats.fruitsSliced += 1;
+    this.stats.highScore = Math.max(this.stats.score, this.stats.highScore);
+
+    const stroke = this.strokes.get(bladeId);
+    if (stroke) {
+      stroke.fruitCount++;
+      stroke.endX = fruit.x;
+      stroke.endY = fruit.y;
+    }
+
+    fruit.sliced = true;
+    fruit.sliceAngle = sliceAngle;
+    this.fruits = this.fruits.filter(f => f.id !== fruit.id);
+
+    this.createParticles(fruit.x, fruit.y, FRUIT_COLORS[fruit.type], JUICE_BURST);
+    this.createSlicedFruit(fruit, sliceAngle);
+    this.addScorePopup(fruit.x, fruit.y, points, combo >= 2);
+
+    this.emit('fruitSliced', { fruitType: fruit.type, x: fruit.x, y: fruit.y, sliceAngle, points, combo });
+    if (combo >= COMBO_EVENT_MIN) {
+      this.emit('comboReached', { combo });
+    }
+  }
+
+  private sliceSpecialFruit(special: SpecialFruit): void {
+    this.createParticles(special.x, special.y, POWER_UP_COLORS[special.specialType], POWER_UP_BURST);
+
+    const points = this.rules.scoring.specialFruitPoints;
+    this.addScorePopup(special.x, special.y, points, true);
+    this.stats.score += points;
+    this.stats.highScore = Math.max(this.stats.score, this.stats.highScore);
+
+    this.specialFruits = this.specialFruits.filter(s => s.id !== special.id);
+
+    if (special.specialType === 'frenzy') {
+      this.activateFrenzy();
+    } else if (special.specialType === 'doubleScore') {
+      this.activateDoubleScore();
+    } else {
+      this.activateFreeze();
+    }
+
+    this.emit('specialActivated', { specialType: special.specialType, x: special.x, y: special.y });
+  }
+
+  private sliceBomb(bomb: Bomb): void {
+    bomb.sliced = true;
+
+    const rule = this.rules.loseConditions.bomb;
+    if (rule.kind === 'penalty') {
+      // Knock points and time off, then carry on
+      const pointsLost = Math.min(rule.points, this.stats.score);
+      this.stats.score -= pointsLost;
+      this.stats.combo = 0;
+      if (this.duration !== null) {
+        this.duration -= rule.time;
+      }
+      this.bombs = this.bombs.filter(b => b.id !== bomb.id);
+      this.createParticles(bomb.x, bomb.y, ['#FF4500', '#FFA500', '#333333'], POWER_UP_BURST);
+      this.addScorePopup(bomb.x, bomb.y, -pointsLost, false);
+      this.emit('bombHit', { bomb, pointsLost, timeLost: rule.time });
+      return;
+    }
+
+    this.stats.lives = 0;
+    this.emit('bombHit', { bomb, pointsLost: 0, timeLost: 0 });
+    this.endRun();
+  }
+
+  private endRun(): void {
+    this.status = 'gameover';
+    this.stats.highScore = Math.max(this.stats.score, this.stats.highScore);
+    this.emit('gameOver', { mode: this.mode, seed: this.seed, stats: { ...this.stats } });
+  }
+
+  // --- Power-ups ---
+
+  // Slow-mo plus a fruit shower - NO bombs during frenzy
+  private activateFrenzy(): void {
+    this.activeEffect = 'frenzy';
+    this.timeScale = 0.3;
+    for (let i = 0; i < 16; i++) {
+      this.scheduleFruit(i * 80);
+    }
+    this.effectEndsAt = this.elapsed + FRENZY_DURATION;
+  }
+
+  // Everything slows down
+  private activateFreeze(): void {
+    this.activeEffect = 'freeze';
+    this.timeScale = 0.2;
+    this.effectEndsAt = this.elapsed + FREEZE_DURATION;
+  }
+
+  // Every fruit is worth twice as much
+  private activateDoubleScore(): void {
+    this.activeEffect = 'doubleScore';
+    this.timeScale = 1;
+    this.effectEndsAt = this.elapsed + DOUBLE_SCORE_DURATION;
+  }
+
+  private expireEffect(): void {
+    if (this.effectEndsAt !== null && this.elapsed >= this.effectEndsAt) {
+      this.effectEndsAt = null;
+      this.activeEffect = null;
+      this.timeScale = 1;
+    }
+  }
+
+  // --- Physics ---
+
+  private updateBodies(dt: number): void {
+    // Velocities are in pixels per 60 Hz tick
+    const scale = (dt / FIXED_STEP_MS) * this.timeScale;
+    const gravity = this.rules.gravity * scale;
+    const offscreen = this.height + 100;
+
+    const move = (body: Fruit | Bomb | SpecialFruit | SlicedFruit) => {
+      body.prevX = body.x;
+      body.prevY = body.y;
+      body.prevRotation = body.rotation;
+      body.x += body.velocityX * scale;
+      body.y += body.velocityY * scale;
+      body.velocityY += gravity;
+      body.rotation += body.rotationSpeed * scale;
+    };
+
+    this.fruits.forEach(move);
+    this.bombs.forEach(move);
+    this.specialFruits.forEach(move);
+    this.slicedFruits.forEach(move);
+    this.particles.forEach(p => {
+      p.prevX = p.x;
+      p.prevY = p.y;
+      p.x += p.velocityX * scale;
+      p.y += p.velocityY * scale;
+      p.velocityY += gravity * 0.5;
+    });
+
+    // Fruit that fell off screen without being sliced costs a life
+    const missedFruits = this.fruits.filter(f => f.y > offscreen);
+    const missed = missedFruits.length;
+    this.fruits = this.fruits.filter(f => f.y <= offscreen);
+    missedFruits.forEach(f => this.emit('fruitMissed', { fruitType: f.type, x: f.x }));
+    this.bombs = this.bombs.filter(b => b.y < offscreen);
+    this.specialFruits = this.specialFruits.filter(s => s.y < offscreen);
+    this.slicedFruits = this.slicedFruits.filter(sf => this.elapsed - sf.createdAt < SLICED_FRUIT_LIFETIME);
+    this.particles = this.particles.filter(p => this.elapsed - p.createdAt < p.lifetime);
+    this.scorePopups = this.scorePopups.filter(sp => this.elapsed - sp.createdAt < SCORE_POPUP_LIFETIME);
+
+    if (missed > 0 && this.rules.loseConditions.missCostsLife) {
+      this.stats.lives = Math.max(0, this.stats.lives - missed);
+      this.emit('lifeLost', { missed, lives: this.stats.lives });
+      if (this.stats.lives <= 0) {
+        this.endRun();
+      }
+    }
+  }
+
+  // --- Spawning ---
+
+  private scheduleFruit(delayMs: number): void {
+    this.pendingFruitSpawns.push(this.elapsed + delayMs);
+  }
+
+  private flushPendingSpawns(): void {
+    if (this.pendingFruitSpawns.length === 0) return;
+    const due = this.pendingFruitSpawns.filter(at => at <= this.elapsed);
+    this.pendingFruitSpawns = this.pendingFruitSpawns.filter(at => at > this.elapsed);
+    due.forEach(() => this.spawnFruit());
+  }
+
+  private updateSpawning(): void {
+    // Frenzy handles its own spawning
+    if (this.activeEffect === 'frenzy') return;
+
+    const schedule = this.rules.spawn;
+    const spawnInterval = Math.max(schedule.intervalMin, schedule.intervalBase - this.wave * schedule.intervalStep);
+    if (this.elapsed - this.lastSpawnAt <= spawnInterval) return;
+
+    const rng = this.rng;
+    this.lastSpawnAt = this.elapsed;
+    this.spawnsSinceSpecial++;
+
+    if (rng.next() < schedule.criticalThrowChance) {
+      // Critical throw - 4-5 fruits in a tight burst
+      const count = 4 + rng.int(2);
+      for (let i = 0; i < count; i++) {
+        this.scheduleFruit(i * 60);
+      }
+      this.emit('criticalThrow', { count });
+    } else {
+      // Regular spawn: 1-3 fruits
+      const count = 1 + rng.int(Math.min(3, this.wave));
+      for (let i = 0; i < count; i++) {
+        this.scheduleFruit(i * 100);
+      }
+
+      // Maybe spawn a bomb, if the mode has them
+      const bombChance = Math.min(schedule.bombChanceMax, schedule.bombChanceBase + this.wave * schedule.bombChancePerWave);
+      if (this.rules.allowed.bombs && rng.next() < bombChance) {
+        this.spawnBomb();
+      }
+    }
+
+    // Special fruit spawning (random + guaranteed interval)
+    const powerUps = this.rules.allowed.powerUps;
+    const shouldSpawnSpecial = powerUps.length > 0 && (
+      (this.wave >= schedule.specialMinWave && rng.next() < schedule.specialChance) ||
+      this.spawnsSinceSpecial >= schedule.guaranteedSpecialInterval
+    );
+
+    if (shouldSpawnSpecial) {
+      this.spawnSpecialFruit(rng.pick(powerUps));
+      this.spawnsSinceSpecial = 0;
+    }
+
+    // Next wave every few fruits sliced
+    const newWave = Math.floor(this.stats.fruitsSliced / schedule.fruitsPerWave) + 1;
+    if (newWave > this.wave) {
+      this.wave = newWave;
+      this.emit('waveChanged', { wave: newWave });
+    }
+  }
+
+  // Launch position and velocity aimed loosely at the centre of the screen
+  private launch(spread: number, jitter: number) {
+    const rng = this.rng;
+    const x = rng.next() * (this.width - 100) + 50;
+    const targetX = this.width / 2 + (rng.next() - 0.5) * this.width * spread;
+    const velocityX = (targetX - x) * 0.02 + (jitter ? (rng.next() - 0.5) * jitter : 0);
+    return { x, y: this.height + 50, velocityX };
+  }
+
+  private spawnFruit(): void {
+    const rng = this.rng;
+    const type = rng.pick(FRUIT_TYPES);
+    const { x, y, velocityX } = this.launch(0.5, 2);
+    const rotation = rng.next() * 360;
+
+    this.fruits.push({
+      id: rng.id(),
+      type,
+      x,
+      y,
+      prevX: x,
+      prevY: y,
+      velocityX,
+      velocityY: -(14 + rng.next() * 6 + this.wave * 0.5),
+      rotation,
+      prevRotation: rotation,
+      rotationSpeed: (rng.next() - 0.5) * 8,
+      radius: type === 'watermelon' || type === 'pineapple' ? 50 : 35,
+      sliced: false,
+    });
+  }
+
+  private spawnBomb(): void {
+    const rng = this.rng;
+    const { x, y, velocityX } = this.launch(0.5, 2);
+    const rotation = rng.next() * 360;
+
+    this.bombs.push({
+      id: rng.id(),
+      x,
+      y,
+      prevX: x,
+      prevY: y,
+      velocityX,
+      velocityY: -(14 + rng.next() * 5),
+      rotation,
+      prevRotation: rotation,
+      rotationSpeed: (rng.next() - 0.5) * 6,
+      radius: 40,
+      sliced: false,
+    });
+  }
+
+  private spawnSpecialFruit(specialType: SpecialFruitType): void {
+    const rng = this.rng;
+    const { x, y, velocityX } = this.launch(0.3, 0);
+    const rotation = rng.next() * 360;
+
+    this.specialFruits.push({
+      id: rng.id(),
+      specialType,
+      x,
+      y,
+      prevX: x,
+      prevY: y,
+      velocityX,
+      velocityY: -(14 + rng.next() * 4), // Higher arc for visibility
+      rotation,
+      prevRotation: rotation,
+      rotationSpeed: (rng.next() - 0.5) * 6,
+      radius: 45,
+    });
+  }
+
+  // --- Effects ---
+
+  private createParticles(x: number, y: number, colors: string[], burst: ParticleBurst): void {
+    const rng = this.rng;
+    for (let i = 0; i < burst.count; i++) {
+      const angle = (Math.PI * 2 * i) / burst.count + rng.next() * 0.5;
+      const speed = burst.minSpeed + rng.next() * burst.speedRange;
+
+      this.particles.push({
+        id: rng.id(),
+        x,
+        y,
+        prevX: x,
+        prevY: y,
+        velocityX: Math.cos(angle) * speed,
+        velocityY: Math.sin(angle) * speed,
+        color: rng.pick(colors),
+        size: burst.minSize + rng.next() * burst.sizeRange,
+        createdAt: this.elapsed,
+        lifetime: burst.lifetime,
+      });
+    }
+  }
+
+  private createSlicedFruit(fruit: Fruit, sliceAngle: number): void {
+    (['left', 'right'] as const).forEach(half => {
+      const direction = half === 'left' ? -1 : 1;
+      this.slicedFruits.push({
+        id: this.rng.id(),
+        type: fruit.type,
+        x: fruit.x,
+        y: fruit.y,
+        prevX: fruit.x,
+        prevY: fruit.y,
+        velocityX: fruit.velocityX + 3 * direction,
+        velocityY: fruit.velocityY - 2,
+        rotation: fruit.rotation,
+        prevRotation: fruit.rotation,
+        rotationSpeed: 8 * direction,
+        radius: fruit.radius,
+        half,
+        sliceAngle,
+        createdAt: this.elapsed,
+      });
+    });
+  }
+
+  private addScorePopup(x: number, y: number, score: number, isCombo: boolean): void {
+    this.scorePopups.push({
+      id: this.rng.id(),
+      type: 'points',
+      x,
+      y,
+      score,
+      isCombo,
+      createdAt: this.elapsed,
+    });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Blade collision helpers
+ * Pure geometry shared by the game world and anything that replays blade input
+ */
+
+import { Blade, BladeCut, BladePoint, BladeSegment } from '@/types/game';
+
+// Only the newest part of the trail can cut - keeps old trail points from slicing fresh fruit
+const CUTTING_SEGMENTS = 4;
+
+export function lineCircleIntersection(
+  x1: number, y1: number,
+  x2: number, y2: number,
+  cx: number, cy: number,
+  r: number
+): boolean {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const fx = x1 - cx;
+  const fy = y1 - cy;
+
+  const a = dx * dx + dy * dy;
+  const b = 2 * (fx * dx + fy * dy);
+  const c = (fx * fx + fy * fy) - r * r;
+
+  let discriminant = b * b - 4 * a * c;
+  
+  if (discriminant < 0) return false;
+
+  discriminant = Math.sqrt(discriminant);
+  const t1 = (-b - discriminant) / (2 * a);
+  const t2 = (-b + discriminant) / (2 * a);
+
+  return (t1 >= 0 && t1 <= 1) || (t2 >= 0 && t2 <= 1);
+}
+
+export function segmentHitsCircle(segment: BladeSegment, cx: number, cy: number, r: number): boolean {
+  return lineCircleIntersection(segment.x1, segment.y1, segment.x2, segment.y2, cx, cy, r);
+}
+
+export function segmentAngle(segment: BladeSegment): number {
+  return Math.atan2(segment.y2 - segment.y1, segment.x2 - segment.x1);
+}
+
+/** The trail plus its predicted tip, if any - what the blade cuts and draws with */
+export function bladePath({ trail, predicted }: Blade): BladePoint[] {
+  return predicted ? [...trail, predicted] : trail;
+}
+
+/** Cutting input for one step from any number of blades */
+export function bladesToCuts(blades: Blade[]): BladeCut[] {
+  return blades.map(blade => ({
+    id: blade.id,
+    segments: trailToSegments(bladePath(blade), blade.isSwiping),
+    swiping: blade.isSwiping,
+  }));
+}
+
+/**
+ * Turn the tail of a blade trail into cutting segments.
+ * A blade that isn't swiping doesn't cut at all.
+ */
+export function trailToSegments(trail: Array<{ x: number; y: number }>, isSwiping: boolean): BladeSegment[] {
+  if (!isSwiping || trail.length < 2) return [];
+
+  const segments: BladeSegment[] = [];
+  for (let i = Math.max(0, trail.length - CUTTING_SEGMENTS - 1); i < trail.length - 1; i++) {
+    segments.push({ x1: trail[i].x, y1: trail[i].y, x2: trail[i + 1].x, y2: trail[i + 1].y });
+  }
+  return segments;
+}
@@ -0,0 +1,28 @@
+/**
+ * Events published by the game engine
+ * Everything a side effect (sound, shake, vibration) needs is in the payload,
+ * so subscribers never have to diff game state
+ */
+
+import { Bomb, FruitType, GameMode, GameStats, SpecialFruitType } from '@/types/game';
+import { EventBus } from './EventBus';
+
+export interface GameEvents {
+  fruitSliced: { fruitType: FruitType; x: number; y: number; sliceAngle: number; points: number; combo: number };
+  specialActivated: { specialType: SpecialFruitType; x: number; y: number };
+  // Penalties are zero when the bomb ends the run
+  bombHit: { bomb: Bomb; pointsLost: number; timeLost: number };
+  fruitMissed: { fruitType: FruitType; x: number };
+  lifeLost: { missed: number; lives: number };
+  comboReached: { combo: number };
+  strokeBonus: { fruitCount: number; points: number; x: number; y: number };
+  waveChanged: { wave: number };
+  criticalThrow: { count: number };
+  gameOver: { mode: GameMode; seed: number; stats: GameStats };
+}
+
+export type GameEventBus = EventBus<GameEvents>;
+
+export function createGameEventBus(): GameEventBus {
+  return new EventBus<GameEvents>();
+}
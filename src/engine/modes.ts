@@ -0,0 +1,177 @@
+/**
+ * Game mode registry
+ * A mode is plain data describing the rules of a run - GameWorld reads it
+ * instead of hardcoding per-mode branches. Register a definition and it shows
+ * up in the menu; no engine changes needed.
+ */
+
+import { GameMode, SpecialFruitType } from '@/types/game';
+
+// Pieces of the in-game HUD a mode can ask for
+export type HudWidget = 'score' | 'combo' | 'best' | 'lives' | 'timer';
+
+export interface SpawnSchedule {
+  // ms between throws, shrinking by intervalStep each wave down to intervalMin
+  intervalBase: number;
+  intervalMin: number;
+  intervalStep: number;
+  criticalThrowChance: number;
+  bombChanceBase: number;
+  bombChancePerWave: number;
+  bombChanceMax: number;
+  specialChance: number;
+  specialMinWave: number;
+  // Force a power-up after this many throws without one
+  guaranteedSpecialInterval: number;
+  // Fruit sliced per wave
+  fruitsPerWave: number;
+}
+
+export type BombRule =
+  | { kind: 'endRun' }
+  // Knock points and ms off the run and carry on
+  | { kind: 'penalty'; points: number; time: number };
+
+export interface LoseConditions {
+  // Missed fruit cost a life; the run ends at zero
+  missCostsLife: boolean;
+  bomb: BombRule;
+}
+
+export interface ScoringRules {
+  comboWindow: number;
+  maxComboMultiplier: number;
+  specialFruitPoints: number;
+  // Fruit needed in one stroke for the "N fruit combo" bonus (worth N points)
+  strokeBonusMin: number;
+}
+
+export interface GameModeDefinition {
+  id: GameMode;
+  name: string;
+  // One-liner shown under the menu button
+  tagline: string;
+  // localStorage key for this mode's best score
+  highScoreKey: string;
+  gravity: number;
+  lives: number;
+  // Run length in ms, null for untimed
+  duration: number | null;
+  spawn: SpawnSchedule;
+  loseConditions: LoseConditions;
+  scoring: ScoringRules;
+  allowed: {
+    bombs: boolean;
+    powerUps: SpecialFruitType[];
+  };
+  hud: HudWidget[];
+  // Not offered as a regular menu button (e.g. the daily challenge has its own entry)
+  hidden?: boolean;
+}
+
+const DEFAULT_SPAWN: SpawnSchedule = {
+  intervalBase: 1500,
+  intervalMin: 600,
+  intervalStep: 100,
+  criticalThrowChance: 0.12, // 12% chance for critical multi-fruit throw
+  bombChanceBase: 0.15,
+  bombChancePerWave: 0.03,
+  bombChanceMax: 0.35,
+  specialChance: 0.08, // 8% chance for power-up fruits (reduced for difficulty)
+  specialMinWave: 1, // Start spawning from wave 1
+  guaranteedSpecialInterval: 15, // Force a special every 15 spawn cycles (increased for difficulty)
+  fruitsPerWave: 10,
+};
+
+const DEFAULT_SCORING: ScoringRules = {
+  comboWindow: 800,
+  maxComboMultiplier: 8,
+  specialFruitPoints: 50,
+  strokeBonusMin: 3,
+};
+
+export const CLASSIC_MODE: GameModeDefinition = {
+  id: 'classic',
+  name: 'CLASSIC',
+  tagline: '3 lives • avoid bombs',
+  highScoreKey: 'fruitNinjaHighScore',
+  gravity: 0.4,
+  lives: 3,
+  duration: null,
+  spawn: DEFAULT_SPAWN,
+  loseConditions: { missCostsLife: true, bomb: { kind: 'endRun' } },
+  scoring: DEFAULT_SCORING,
+  allowed: { bombs: true, powerUps: ['freeze'] },
+  hud: ['score', 'combo', 'best', 'lives'],
+};
+
+export const ZEN_MODE: GameModeDefinition = {
+  ...CLASSIC_MODE,
+  id: 'zen',
+  name: 'ZEN',
+  tagline: '90 seconds • no bombs',
+  highScoreKey: 'fruitNinjaHighScore:zen',
+  duration: 90000,
+  loseConditions: { missCostsLife: false, bomb: { kind: 'endRun' } },
+  allowed: { bombs: false, powerUps: ['freeze'] },
+  hud: ['score', 'combo', 'best', 'timer'],
+};
+
+export const ARCADE_MODE: GameModeDefinition = {
+  ...CLASSIC_MODE,
+  id: 'arcade',
+  name: 'ARCADE',
+  tagline: '60 seconds • bombs cost time',
+  highScoreKey: 'fruitNinjaHighScore:arcade',
+  duration: 60000,
+  loseConditions: { missCostsLife: false, bomb: { kind: 'penalty', points: 10, time: 5000 } },
+  allowed: { bombs: true, powerUps: ['frenzy', 'freeze', 'doubleScore'] },
+  hud: ['score', 'combo', 'best', 'timer'],
+};
+
+// Fixed rules for the daily challenge - the seed comes from the date
+export const DAILY_MODE: GameModeDefinition = {
+  ...ARCADE_MODE,
+  id: 'daily',
+  name: 'DAILY CHALLENGE',
+  tagline: 'Same fruit for everyone today',
+  highScoreKey: 'fruitNinjaHighScore:daily',
+  hidden: true,
+};
+
+// Rules each player gets in a split-screen match - see @/engine/versus
+export const VERSUS_MODE: GameModeDefinition = {
+  ...CLASSIC_MODE,
+  id: 'versus',
+  name: 'VERSUS',
+  tagline: '2 players • last ninja standing',
+  highScoreKey: 'fruitNinjaHighScore:versus',
+  hud: ['score', 'combo', 'lives'],
+  hidden: true,
+};
+
+export const DEFAULT_GAME_MODE: GameMode = CLASSIC_MODE.id;
+
+// Insertion order is menu order
+const registry = new Map<GameMode, GameModeDefinition>();
+
+export function registerGameMode(definition: GameModeDefinition): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Game mode "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition);
+}
+
+export function getGameMode(id: GameMode): GameModeDefinition {
+  const definition = registry.get(id);
+  if (!definition) {
+    throw new Error(`Unknown game mode "${id}"`);
+  }
+  return definition;
+}
+
+export function listGameModes(): GameModeDefinition[] {
+  return [...registry.values()];
+}
+
+[CLASSIC_MODE, ZEN_MODE, ARCADE_MODE, DAILY_MODE, VERSUS_MODE].forEach(registerGameMode);
@@ -0,0 +1,237 @@
+/**
+ * Replays - a run is its seed, its mode and the blade input behind each step
+ * GameWorld is deterministic, so feeding the recorded input to a fresh world
+ * with the same seed reproduces the run exactly.
+ */
+
+import { Blade, BladePoint, GameMode, GameStats } from '@/types/game';
+import { FIXED_STEP_MS } from '@/utils/fixedTimestep';
+import { GameWorld } from './GameWorld';
+import { bladesToCuts } from './collision';
+
+// Bump whenever a rules change would make stored replays play out differently
+export const REPLAY_VERSION = 3;
+
+// More than enough of the trail to rebuild the cutting segments
+const PLAYBACK_TAIL = 8;
+
+// What changed about one blade since its previous input, stamped with simulation time
+export interface ReplayInput {
+  t: number;
+  blade: string;
+  // Trail points added since the previous input
+  points: BladePoint[];
+  // The trail was cleared before these points arrived
+  reset: boolean;
+  swiping: boolean;
+  // Predicted tip at this input, absent when there was none
+  predicted?: BladePoint;
+}
+
+export interface Replay {
+  id: string;
+  version: number;
+  seed: number;
+  mode: GameMode;
+  width: number;
+  height: number;
+  // Wall-clock ms, for listing only
+  recordedAt: number;
+  // Simulation ms the run lasted
+  duration: number;
+  stats: GameStats;
+  inputs: ReplayInput[];
+}
+
+interface RecordedBlade {
+  // Live trail object last recorded - identity tells us which points are new
+  lastPoint: BladePoint | null;
+  swiping: boolean;
+  predicted?: BladePoint;
+}
+
+/**
+ * Records the blade input of a live run. Call capture() once per frame,
+ * before stepping the world, with the same blades the steps will cut with.
+ */
+export class ReplayRecorder {
+  private inputs: ReplayInput[] = [];
+  private blades = new Map<string, RecordedBlade>();
+
+  constructor(private readonly world: GameWorld) {}
+
+  capture(blades: Blade[]): void {
+    blades.forEach(blade => this.captureBlade(blade));
+
+    // A blade that went away is an empty, idle one
+    this.blades.forEach((_, id) => {
+      if (!blades.some(blade => blade.id === id)) {
+        this.captureBlade({ id, trail: [], isSwiping: false });
+        this.blades.delete(id);
+      }
+    });
+  }
+
+  private captureBlade({ id, trail, isSwiping, predicted }: Blade): void {
+    const recorded = this.blades.get(id) ?? { lastPoint: null, swiping: false };
+    const index = recorded.lastPoint ? trail.lastIndexOf(recorded.lastPoint) : -1;
+    const reset = recorded.lastPoint !== null && index === -1;
+    const added = trail.slice(index + 1);
+    if (added.length === 0 && !reset && isSwiping === recorded.swiping && predicted === recorded.predicted) return;
+
+    this.inputs.push({
+      t: this.world.time,
+      blade: id,
+      points: added.map(({ x, y, timestamp }) => ({ x, y, timestamp })),
+      reset,
+      swiping: isSwiping,
+      ...(predicted && { predicted: { x: predicted.x, y: predicted.y, timestamp: predicted.timestamp } }),
+    });
+    this.blades.set(id, {
+      lastPoint: trail.length > 0 ? trail[trail.length - 1] : null,
+      swiping: isSwiping,
+      predicted,
+    });
+  }
+
+  finish(id: string, recordedAt: number): Replay {
+    const { seed, mode, width, height } = this.world;
+    const snapshot = this.world.getSnapshot();
+    return {
+      id,
+      version: REPLAY_VERSION,
+      seed,
+      mode,
+      width,
+      height,
+      recordedAt,
+      duration: snapshot.time,
+      stats: snapshot.stats,
+      inputs: this.inputs,
+    };
+  }
+}
+
+/**
+ * Plays a replay back through a fresh GameWorld. Seeking backwards
+ * re-simulates from the start - a whole run takes a few milliseconds.
+ */
+export class ReplayPlayback {
+  private world!: GameWorld;
+  private nextInput = 0;
+  private blades = new Map<string, Blade>();
+
+  constructor(readonly replay: Replay) {
+    this.restart();
+  }
+
+  get time(): number {
+    return this.world.time;
+  }
+
+  get finished(): boolean {
+    return this.world.getSnapshot().status === 'gameover';
+  }
+
+  /** Blades as they stood at the last simulated step */
+  getBlades(): Blade[] {
+    return [...this.blades.values()];
+  }
+
+  getSnapshot() {
+    return this.world.getSnapshot();
+  }
+
+  /** Advance or rewind the run to the given simulation time */
+  seek(time: number): void {
+    if (time < this.world.time) {
+      this.restart();
+    }
+    while (this.world.time < time && !this.finished) {
+      this.applyInputs();
+      this.world.step(FIXED_STEP_MS, bladesToCuts(this.getBlades()));
+    }
+  }
+
+  private restart(): void {
+    const { width, height, seed, mode } = this.replay;
+    this.world = new GameWorld({ width, height, seed, mode });
+    this.nextInput = 0;
+    this.blades = new Map();
+  }
+
+  // Apply every input recorded at or before the current step, like the live frame did
+  private applyInputs(): void {
+    const inputs = this.replay.inputs;
+    while (this.nextInput < inputs.length && inputs[this.nextInput].t <= this.world.time) {
+      const input = inputs[this.nextInput++];
+      const tail = input.reset ? [] : this.blades.get(input.blade)?.trail ?? [];
+      this.blades.set(input.blade, {
+        id: input.blade,
+        trail: [...tail, ...input.points].slice(-PLAYBACK_TAIL),
+        isSwiping: input.swiping,
+        predicted: input.predicted,
+      });
+    }
+  }
+}
+
+/** Re-simulate a replay to the end and check it lands on the recorded score */
+export function verifyReplay(replay: Replay): boolean {
+  const playback = new ReplayPlayback(replay);
+  playback.seek(replay.duration);
+  const { stats } = playback.getSnapshot();
+  return stats.score === replay.stats.score && stats.fruitsSliced === replay.stats.fruitsSliced;
+}
+
+// Where a play area of one size sits on a screen of another: scaled to fit and centred
+export interface PlayAreaFit {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export function fitPlayArea(
+  area: { width: number; height: number },
+  screen: { width: number; height: number }
+): PlayAreaFit {
+  const scale = Math.min(screen.width / area.width, screen.height / area.height);
+  return { scale, x: (screen.width - area.width * scale) / 2, y: (screen.height - area.height * scale) / 2 };
+}
+
+/** A screen point in the play area's coordinates */
+export function toPlayArea<T extends { x: number; y: number }>(point: T, fit: PlayAreaFit): T {
+  return { ...point, x: (point.x - fit.x) / fit.scale, y: (point.y - fit.y) / fit.scale };
+}
+
+/**
+ * Moves screen blades into a play area, e.g. a ghost race recorded at another
+ * window size. A screen point maps to the same object every frame, so
+ * ReplayRecorder can still tell which points are new.
+ */
+export class PlayAreaMapper {
+  private points = new WeakMap<BladePoint, BladePoint>();
+  private readonly identity: boolean;
+
+  constructor(readonly fit: PlayAreaFit) {
+    this.identity = fit.scale === 1 && fit.x === 0 && fit.y === 0;
+  }
+
+  map(blades: Blade[]): Blade[] {
+    if (this.identity) return blades;
+    return blades.map(blade => ({
+      ...blade,
+      trail: blade.trail.map(point => this.point(point)),
+      predicted: blade.predicted && this.point(blade.predicted),
+    }));
+  }
+
+  private point(point: BladePoint): BladePoint {
+    let mapped = this.points.get(point);
+    if (!mapped) {
+      mapped = toPlayArea(point, this.fit);
+      this.points.set(point, mapped);
+    }
+    return mapped;
+  }
+}
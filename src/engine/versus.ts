@@ -0,0 +1,112 @@
+/**
+ * Versus - two players share one camera, each on their own half of the screen
+ * Every player runs an independent GameWorld on the same seed, so both halves
+ * get the same fruit. Blades are handed to a player by hand or by screen side.
+ */
+
+import { Blade, BladeCut } from '@/types/game';
+import { GameWorld, GameWorldSnapshot } from './GameWorld';
+import { GameEventBus } from './events';
+import { bladesToCuts } from './collision';
+import { VERSUS_MODE } from './modes';
+
+export const VERSUS_PLAYERS = 2;
+
+// How a blade picks its player
+export type HandAssignment = 'side' | 'handedness';
+
+// MediaPipe labels handedness as if the frame were mirrored; ours is not,
+// so a player's left hand comes out as "Right"
+const HANDEDNESS_PLAYER: Record<string, number> = {
+  'hand-Right': 0,
+  'hand-Left': 1,
+};
+
+/** Player a blade belongs to, or null while it has nowhere to be */
+export function playerForBlade(blade: Blade, width: number, assignment: HandAssignment): number | null {
+  if (assignment === 'handedness' && blade.id in HANDEDNESS_PLAYER) {
+    return HANDEDNESS_PLAYER[blade.id];
+  }
+  // The pointer and unlabelled hands always go by side
+  const tip = blade.trail[blade.trail.length - 1];
+  if (!tip) return null;
+  return tip.x < width / 2 ? 0 : 1;
+}
+
+/** A player's blades, moved into the coordinates of their half */
+export function bladesForPlayer(blades: Blade[], player: number, width: number, assignment: HandAssignment): Blade[] {
+  const offset = player * Math.floor(width / VERSUS_PLAYERS);
+  return blades
+    .filter(blade => playerForBlade(blade, width, assignment) === player)
+    .map(blade => ({
+      ...blade,
+      trail: blade.trail.map(point => ({ ...point, x: point.x - offset })),
+      predicted: blade.predicted && { ...blade.predicted, x: blade.predicted.x - offset },
+    }));
+}
+
+export interface VersusMatchOptions {
+  // The whole screen - each player gets half of the width
+  width: number;
+  height: number;
+  seed: number;
+  assignment?: HandAssignment;
+  // Shared by both worlds
+  events?: GameEventBus;
+}
+
+export class VersusMatch {
+  readonly players: GameWorld[];
+  readonly width: number;
+  readonly assignment: HandAssignment;
+
+  constructor({ width, height, seed, assignment = 'side', events }: VersusMatchOptions) {
+    this.width = width;
+    this.assignment = assignment;
+    this.players = Array.from({ length: VERSUS_PLAYERS }, () => new GameWorld({
+      width: Math.floor(width / VERSUS_PLAYERS),
+      height,
+      seed,
+      mode: VERSUS_MODE.id,
+      events,
+    }));
+  }
+
+  get time(): number {
+    return Math.max(...this.players.map(world => world.time));
+  }
+
+  /**
+   * Over once both players are out, or once the last one standing has
+   * passed everyone who is out - there is nothing left to play for
+   */
+  get finished(): boolean {
+    const snapshots = this.getSnapshots();
+    const alive = snapshots.filter(snapshot => snapshot.status === 'playing');
+    if (alive.length === 0) return true;
+    if (alive.length > 1) return false;
+    const bestOut = Math.max(...snapshots.filter(snapshot => snapshot.status !== 'playing').map(snapshot => snapshot.stats.score));
+    return alive[0].stats.score > bestOut;
+  }
+
+  /** Index of the player with the top score, null on a draw */
+  get winner(): number | null {
+    const scores = this.players.map(world => world.getSnapshot().stats.score);
+    const top = Math.max(...scores);
+    return scores.filter(score => score === top).length === 1 ? scores.indexOf(top) : null;
+  }
+
+  /** Which blades cut for which player this step */
+  cutsFor(blades: Blade[]): BladeCut[][] {
+    return this.players.map((_, player) => bladesToCuts(bladesForPlayer(blades, player, this.width, this.assignment)));
+  }
+
+  step(dt: number, cuts: BladeCut[][]): void {
+    if (this.finished) return;
+    this.players.forEach((world, player) => world.step(dt, cuts[player]));
+  }
+
+  getSnapshots(): GameWorldSnapshot[] {
+    return this.players.map(world => world.getSnapshot());
+  }
+}
@@ -4,8 +4,9 @@
  */
 
 import { useRef, useCallback, useEffect, useState } from 'react';
+import { SpecialFruitType } from '@/types/game';
 
-type SoundType = 'slice' | 'bomb' | 'splat' | 'miss' | 'combo' | 'gameOver';
+type SoundType = 'slice' | 'bomb' | 'splat' | 'miss' | 'combo' | 'powerUp' | 'gameOver';
 
 export function useAudio() {
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -231,6 +232,36 @@ export function useAudio() {
     });
   }, [initAudio]);
 
+  // Power-up pickup - warm arpeggio for frenzy, glassy shimmer for freeze
+  const playPowerUp = useCallback((type: SpecialFruitType) => {
+    if (!isEnabledRef.current) return;
+    const ctx = initAudio();
+    if (!ctx || ctx.state === 'suspended') {
+      ctx?.resume();
+    }
+
+    const now = ctx.currentTime;
+    const notes = type === 'freeze'
+      ? [1568, 2093, 2637, 3136] // G6, C7, E7, G7
+      : [392, 523, 659, 784, 1047]; // G4 up to C6
+
+    notes.forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = type === 'freeze' ? 'sine' : 'triangle';
+      osc.frequency.value = freq;
+
+      const startTime = now + i * 0.05;
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(0.18, startTime + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.001, startTime + (type === 'freeze' ? 0.4 : 0.2));
+
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(startTime);
+      osc.stop(startTime + 0.4);
+    });
+  }, [initAudio]);
+
   // Sad descending tone for game over
   const playGameOver = useCallback(() => {
     if (!isEnabledRef.current) return;
@@ -281,6 +312,7 @@ export function useAudio() {
     playSplat,
     playMiss,
     playCombo,
+    playPowerUp,
     playGameOver,
     toggleAudio,
     initAudio,
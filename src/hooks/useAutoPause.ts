@@ -0,0 +1,50 @@
+/**
+ * Pauses a running game when the player can't be playing:
+ * tab hidden, window blurred, or the tracked hand gone for a while
+ */
+
+import { useEffect, useRef } from 'react';
+
+const HAND_LOST_PAUSE_MS = 3000;
+
+export type PauseReason = 'manual' | 'hidden' | 'blur' | 'handLost';
+
+interface AutoPauseOptions {
+  isPlaying: boolean;
+  // Only watch for a lost hand when the camera is what's driving the blade
+  watchHand: boolean;
+  handDetected: boolean;
+  onPause: (reason: PauseReason) => void;
+}
+
+export function useAutoPause({ isPlaying, watchHand, handDetected, onPause }: AutoPauseOptions) {
+  const onPauseRef = useRef(onPause);
+  onPauseRef.current = onPause;
+
+  // Tab hidden or window lost focus
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        onPauseRef.current('hidden');
+      }
+    };
+    const handleBlur = () => onPauseRef.current('blur');
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [isPlaying]);
+
+  // Hand out of frame for too long
+  useEffect(() => {
+    if (!isPlaying || !watchHand || handDetected) return;
+
+    const timer = setTimeout(() => onPauseRef.current('handLost'), HAND_LOST_PAUSE_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, watchHand, handDetected]);
+}
@@ -0,0 +1,57 @@
+/**
+ * useCalibration - The active profile and its stored play-area calibration
+ * Switching profile switches calibration; saving one makes its profile active
+ */
+
+import { useState, useCallback } from 'react';
+import { Point } from '@/utils/homography';
+import {
+  CalibrationStore,
+  createCalibration,
+  loadCalibrations,
+  saveCalibrations,
+  loadActiveProfile,
+  saveActiveProfile,
+} from '@/utils/calibration';
+
+export function useCalibration() {
+  const [calibrations, setCalibrations] = useState<CalibrationStore>(loadCalibrations);
+  const [profile, setProfile] = useState(loadActiveProfile);
+
+  const selectProfile = useCallback((name: string) => {
+    saveActiveProfile(name);
+    setProfile(name);
+  }, []);
+
+  // Returns false when the reached points don't make a usable play area
+  const calibrate = useCallback((name: string, reached: Point[]): boolean => {
+    const calibration = createCalibration(name, reached, Date.now());
+    if (!calibration) return false;
+
+    setCalibrations(prev => {
+      const next = { ...prev, [name]: calibration };
+      saveCalibrations(next);
+      return next;
+    });
+    selectProfile(name);
+    return true;
+  }, [selectProfile]);
+
+  const clearCalibration = useCallback((name: string) => {
+    setCalibrations(prev => {
+      const next = { ...prev };
+      delete next[name];
+      saveCalibrations(next);
+      return next;
+    });
+  }, []);
+
+  return {
+    profile,
+    profiles: Object.keys(calibrations),
+    calibration: calibrations[profile] ?? null,
+    selectProfile,
+    calibrate,
+    clearCalibration,
+  };
+}
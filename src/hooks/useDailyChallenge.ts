@@ -0,0 +1,52 @@
+/**
+ * useDailyChallenge - Today's seed and the local attempt history
+ * Files each finished daily run under the day it was started on
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GameEventBus } from '@/engine/events';
+import { DAILY_MODE } from '@/engine/modes';
+import {
+  DailyHistory,
+  dayKey,
+  dailySeed,
+  loadDailyHistory,
+  saveDailyHistory,
+  recordDailyAttempt,
+} from '@/utils/daily';
+
+export function useDailyChallenge(events: GameEventBus) {
+  const [history, setHistory] = useState<DailyHistory>(loadDailyHistory);
+  // Day of the run in progress - a run that crosses midnight still counts for its start day
+  const runDayRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    return events.on('gameOver', ({ mode, stats }) => {
+      const day = runDayRef.current;
+      if (mode !== DAILY_MODE.id || !day) return;
+
+      setHistory(prev => {
+        const next = recordDailyAttempt(prev, day, stats.score);
+        saveDailyHistory(next);
+        return next;
+      });
+    });
+  }, [events]);
+
+  // Start options for today's challenge
+  const getTodaysRun = useCallback(() => {
+    const day = dayKey(new Date());
+    runDayRef.current = day;
+    return {
+      mode: DAILY_MODE.id,
+      seed: dailySeed(day),
+      highScore: history[day]?.best ?? 0,
+    };
+  }, [history]);
+
+  return {
+    history,
+    today: history[dayKey(new Date())],
+    getTodaysRun,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Hand gestures as controls, so players don't have to hold still on dwell buttons:
+ * open palm pauses, a fist presses the button under the cursor, a pinch toggles the blade
+ */
+
+import { useEffect, useRef } from 'react';
+import { EventBus } from '@/engine/EventBus';
+import { GestureEvents } from '@/input/gestures';
+
+// Curling into a fist drags the fingertip down, often off the button it was on
+const FIST_CONFIRM_WINDOW_MS = 600;
+
+interface GestureControlsOptions {
+  events: EventBus<GestureEvents>;
+  handPosition: { x: number; y: number; isTracking: boolean };
+  isPlaying: boolean;
+  onPause: () => void;
+  // Left out when pinching means something else
+  onToggleBlade?: () => void;
+}
+
+export function useGestureControls({ events, handPosition, isPlaying, onPause, onToggleBlade }: GestureControlsOptions) {
+  const lastButtonRef = useRef<{ button: HTMLButtonElement; at: number } | null>(null);
+  const optionsRef = useRef({ isPlaying, onPause, onToggleBlade });
+  optionsRef.current = { isPlaying, onPause, onToggleBlade };
+
+  // Remember the last button the cursor was over
+  useEffect(() => {
+    if (isPlaying || !handPosition.isTracking) return;
+    const button = document.elementFromPoint(handPosition.x, handPosition.y)?.closest('button');
+    if (button && !button.disabled) {
+      lastButtonRef.current = { button, at: Date.now() };
+    }
+  }, [handPosition.x, handPosition.y, handPosition.isTracking, isPlaying]);
+
+  useEffect(() => {
+    return events.on('gestureStart', ({ gesture, timestamp }) => {
+      const { isPlaying: playing, onPause: pause, onToggleBlade: toggleBlade } = optionsRef.current;
+
+      if (gesture === 'openPalm' && playing) {
+        pause();
+      } else if (gesture === 'pinch') {
+        toggleBlade?.();
+      } else if (gesture === 'fist' && !playing) {
+        const last = lastButtonRef.current;
+        if (last && last.button.isConnected && timestamp - last.at <= FIST_CONFIRM_WINDOW_MS) {
+          lastButtonRef.current = null;
+          last.button.click();
+        }
+      }
+    });
+  }, [events]);
+}
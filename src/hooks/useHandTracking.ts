@@ -1,4 +1,37 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useReducer, useRef, useState, useCallback } from 'react';
+import type { Hands } from '@mediapipe/hands';
+import type { Camera } from '@mediapipe/camera_utils';
+import { Blade, BladePoint } from '@/types/game';
+import { OneEuroSettings, loadFilterSettings, saveFilterSettings } from '@/utils/oneEuroFilter';
+import { loadLookahead, saveLookahead } from '@/utils/bladePrediction';
+import { Homography } from '@/utils/homography';
+import {
+  CameraSettings,
+  loadCameraSettings,
+  saveCameraSettings,
+  videoConstraints,
+  listCameras,
+} from '@/utils/cameraSettings';
+import { loadMediaPipe, locateHandsFile } from '@/utils/mediapipeAssets';
+import { InputKind } from '@/input/InputSource';
+import { InputManager, loadInputPriority, saveInputPriority } from '@/input/InputManager';
+import { BladeArming, HandResults, MediaPipeSource, loadBladeArming, saveBladeArming } from '@/input/MediaPipeSource';
+import { PointerSource } from '@/input/PointerSource';
+import { GamepadSource } from '@/input/GamepadSource';
+import { LandmarkRecorder, downloadLandmarkRecording } from '@/input/landmarkRecording';
+import { FakeHandsSource } from '@/input/FakeHandsSource';
+import {
+  INITIAL_TRACKING_STATUS,
+  STALL_MS,
+  isTrackingStarting,
+  recoveryDelay,
+  stallEvent,
+  trackingReducer,
+} from '@/input/trackingLifecycle';
+
+export type { BladePoint };
+export type { FilterSample, TrackingLatency } from '@/input/MediaPipeSource';
+export type { TrackingState, TrackingStatus } from '@/input/trackingLifecycle';
 
 export interface HandPosition {
   x: number;
@@ -7,16 +40,33 @@ export interface HandPosition {
   isTracking: boolean;
 }
 
-export interface BladePoint {
-  x: number;
-  y: number;
-  timestamp: number;
+const MAX_HANDS = 2;
+// A muted track gets this long to come back before it counts as lost
+const MUTE_GRACE_MS = 3000;
+// How often a replay checks for recorded frames that are due
+const REPLAY_POLL_MS = 1000 / 60;
+
+// What tracking needs from the model - MediaPipe Hands, or a FakeHandsSource replaying a recording
+type HandsModel = Pick<Hands, 'send' | 'close'> & {
+  onResults(listener: (results: HandResults) => void): void;
+};
+
+// Opens the chosen camera; if it has been unplugged, the default one instead
+async function openCamera(settings: CameraSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: videoConstraints(settings) });
+  } catch (error) {
+    const name = (error as Error)?.name;
+    if (!settings.deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) {
+      throw error;
+    }
+    console.warn('Saved camera is unavailable - falling back to the default camera');
+    return navigator.mediaDevices.getUserMedia({ video: videoConstraints({ ...settings, deviceId: null }) });
+  }
 }
 
-const VELOCITY_THRESHOLD = 5; // Lower = easier to trigger swipe
-const TRAIL_LENGTH = 20; // Longer trail for better collision coverage
-
-export function useHandTracking(canvasWidth: number, canvasHeight: number) {
+// A replay stands in for the camera and model, for tests and for reproducing a recorded session
+export function useHandTracking(canvasWidth: number, canvasHeight: number, replay?: FakeHandsSource) {
   const [handPosition, setHandPosition] = useState<HandPosition>({
     x: 0,
     y: 0,
@@ -25,197 +75,239 @@ export function useHandTracking(canvasWidth: number, canvasHeight: number) {
   });
   const [isSwiping, setIsSwiping] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [permissionDenied, setPermissionDenied] = useState(true);
   const [useMouseFallback, setUseMouseFallback] = useState(false);
-  const [cameraReady, setCameraReady] = useState(false);
   const [handDetected, setHandDetected] = useState(false);
-  const [cameraAttempted, setCameraAttempted] = useState(false);
-  const [initError, setInitError] = useState<string | null>(null);
+  const [tracking, dispatchTracking] = useReducer(trackingReducer, INITIAL_TRACKING_STATUS);
+  const [filterSettings, setFilterSettingsState] = useState<OneEuroSettings>(loadFilterSettings);
+  const [lookaheadMs, setLookaheadState] = useState(loadLookahead);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  // What the browser actually gave us - size and rate are only requested as ideals
+  const [activeCamera, setActiveCamera] = useState<MediaTrackSettings | null>(null);
+  const [inputPriority, setInputPriorityState] = useState<InputKind[]>(loadInputPriority);
+  const [bladeArming, setBladeArmingState] = useState<BladeArming>(loadBladeArming);
+  // Whether the blade under the cursor would cut - off while disarmed or hovering
+  const [bladeArmed, setBladeArmed] = useState(true);
+  const [isRecording, setIsRecording] = useState(false);
 
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const handsRef = useRef<any>(null);
-  const cameraRef = useRef<any>(null);
-  const trailRef = useRef<BladePoint[]>([]);
-  const lastPositionRef = useRef<{ x: number; y: number; timestamp: number } | null>(null);
-  const isMouseDownRef = useRef(false);
-  const initStartedRef = useRef(false);
+  const handsRef = useRef<HandsModel | null>(null);
+  const replayRef = useRef(replay);
+  const replayTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const cameraRef = useRef<Camera | null>(null);
+  const lookaheadRef = useRef(lookaheadMs);
+  const cameraSettingsRef = useRef(cameraSettings);
   const canvasDimensionsRef = useRef({ width: canvasWidth, height: canvasHeight });
-  const handTrackingActiveRef = useRef(false);
   const isInitializingRef = useRef(false);
+  // Bumped by every teardown, so an attempt still opening the camera knows it is stale
+  const attemptRef = useRef(0);
+  const trackingRef = useRef(tracking);
+  trackingRef.current = tracking;
+  const lastResultAtRef = useRef(0);
+
+  // Hands, pointer and gamepads each report their own blades; the manager merges them
+  const [{ manager, handSource }] = useState(() => {
+    const getBounds = () => canvasDimensionsRef.current;
+    const handSource = new MediaPipeSource({ getBounds, filterSettings, arming: bladeArming });
+    const manager = new InputManager(inputPriority);
+    manager.add(handSource);
+    manager.add(new PointerSource());
+    manager.add(new GamepadSource(getBounds));
+    return { manager, handSource };
+  });
+  const [recorder] = useState(() => new LandmarkRecorder());
 
   // Keep dimensions ref updated
   useEffect(() => {
     canvasDimensionsRef.current = { width: canvasWidth, height: canvasHeight };
   }, [canvasWidth, canvasHeight]);
 
-  const getTrail = useCallback(() => trailRef.current, []);
-
-  // Mouse/touch handlers - ALWAYS active as fallback
-  const handlePointerMove = useCallback((e: MouseEvent | TouchEvent) => {
-    let clientX: number, clientY: number;
+  useEffect(() => {
+    manager.start();
+    return () => manager.stop();
+  }, [manager]);
 
-    if ('touches' in e) {
-      if (e.touches.length === 0) return;
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
+  // Whichever source has the cursor moves it for menus and buttons
+  useEffect(() => {
+    return manager.events.on('cursor', ({ x, y, velocity, isSwiping: swiping, cutting }) => {
+      setIsSwiping(swiping);
+      setBladeArmed(cutting);
+      setHandPosition({ x, y, velocity, isTracking: true });
+    });
+  }, [manager]);
+
+  const getFilterSamples = useCallback(() => handSource.getFilterSamples(), [handSource]);
+
+  const setFilterSettings = useCallback((settings: OneEuroSettings) => {
+    handSource.configureFilter(settings);
+    saveFilterSettings(settings);
+    setFilterSettingsState(settings);
+  }, [handSource]);
+
+  const getLatency = useCallback(() => handSource.getLatency(), [handSource]);
+
+  const getTelemetry = useCallback(() => handSource.telemetry.snapshot(Date.now()), [handSource]);
+
+  // Captures raw model results for FakeHandsSource; stopping saves them as JSON
+  const toggleRecording = useCallback(() => {
+    if (recorder.isRecording()) {
+      const recording = recorder.stop();
+      if (recording) downloadLandmarkRecording(recording);
+      setIsRecording(false);
     } else {
-      clientX = e.clientX;
-      clientY = e.clientY;
-    }
-
-    const x = clientX;
-    const y = clientY;
-    const now = Date.now();
-
-    // Calculate velocity
-    let velocity = 0;
-    if (lastPositionRef.current) {
-      const dx = x - lastPositionRef.current.x;
-      const dy = y - lastPositionRef.current.y;
-      const dt = Math.max(1, now - lastPositionRef.current.timestamp);
-      velocity = Math.sqrt(dx * dx + dy * dy) / (dt / 16.67);
+      recorder.start(canvasDimensionsRef.current);
+      setIsRecording(true);
     }
+  }, [recorder]);
 
-    lastPositionRef.current = { x, y, timestamp: now };
-
-    // Update trail when mouse is down or touch is active
-    const isActive = isMouseDownRef.current || 'touches' in e;
-    if (isActive) {
-      trailRef.current.push({ x, y, timestamp: now });
-      if (trailRef.current.length > TRAIL_LENGTH) {
-        trailRef.current.shift();
-      }
-    }
+  // First hand's fingertip in mirrored, normalized camera space - what calibration records
+  const getRawFingertip = useCallback(() => handSource.getRawFingertip(), [handSource]);
 
-    // Only update position if hand tracking is not actively detecting
-    // OR if we're using mouse fallback mode
-    // OR if mouse/touch is being used (clicked/touched)
-    if (useMouseFallback || isActive || !handTrackingActiveRef.current) {
-      setIsSwiping(isActive && velocity > VELOCITY_THRESHOLD);
-      setHandPosition({
-        x,
-        y,
-        velocity,
-        isTracking: true,
-      });
-    }
-  }, [useMouseFallback]);
+  const setPlayArea = useCallback((homography: Homography | null) => {
+    handSource.setPlayArea(homography);
+  }, [handSource]);
 
-  const handlePointerDown = useCallback((e: MouseEvent | TouchEvent) => {
-    isMouseDownRef.current = true;
-    trailRef.current = [];
+  const setLookahead = useCallback((ms: number) => {
+    lookaheadRef.current = ms;
+    saveLookahead(ms);
+    setLookaheadState(ms);
   }, []);
 
-  const handlePointerUp = useCallback(() => {
-    isMouseDownRef.current = false;
-    setIsSwiping(false);
-    // Only clear trail if not hand tracking
-    if (!handTrackingActiveRef.current) {
-      trailRef.current = [];
+  // Which source wins the cursor when several are in use; all of them keep cutting
+  const setInputPriority = useCallback((priority: InputKind[]) => {
+    manager.setPriority(priority);
+    saveInputPriority(priority);
+    setInputPriorityState(priority);
+  }, [manager]);
+
+  // Hands keep moving the cursor with their blade off
+  const toggleHandBlade = useCallback(() => {
+    handSource.setBladeEnabled(!handSource.isBladeEnabled());
+  }, [handSource]);
+
+  // Optionally only cut while a pose is held
+  const setBladeArming = useCallback((arming: BladeArming) => {
+    handSource.setArming(arming);
+    // A pinch arms the blade now, so it can no longer switch a disabled one back on
+    if (arming === 'pinch') handSource.setBladeEnabled(true);
+    saveBladeArming(arming);
+    setBladeArmingState(arming);
+  }, [handSource]);
+
+  // Every source's blades in priority order; only hands are predicted -
+  // the pointer and gamepads have no camera lag to make up for
+  const getBlades = useCallback(
+    (): Blade[] => manager.getBlades(Date.now(), lookaheadRef.current),
+    [manager]
+  );
+
+  const refreshCameras = useCallback(async () => {
+    try {
+      setCameras(await listCameras());
+    } catch (error) {
+      console.warn('Could not list cameras:', error);
     }
   }, []);
 
-  // Mouse/touch fallback events - ALWAYS active
+  // Plugging a camera in or out updates the picker
   useEffect(() => {
-    window.addEventListener('mousemove', handlePointerMove);
-    window.addEventListener('mousedown', handlePointerDown);
-    window.addEventListener('mouseup', handlePointerUp);
-    window.addEventListener('touchmove', handlePointerMove, { passive: true });
-    window.addEventListener('touchstart', handlePointerDown, { passive: true });
-    window.addEventListener('touchend', handlePointerUp);
-
-    return () => {
-      window.removeEventListener('mousemove', handlePointerMove);
-      window.removeEventListener('mousedown', handlePointerDown);
-      window.removeEventListener('mouseup', handlePointerUp);
-      window.removeEventListener('touchmove', handlePointerMove);
-      window.removeEventListener('touchstart', handlePointerDown);
-      window.removeEventListener('touchend', handlePointerUp);
-    };
-  }, [handlePointerMove, handlePointerDown, handlePointerUp]);
-
-  // MediaPipe hand tracking results handler
-  const onResults = useCallback((results: any) => {
-    const { width, height } = canvasDimensionsRef.current;
-
-    if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-      handTrackingActiveRef.current = true;
-      setHandDetected(true);
-      
-      const landmarks = results.multiHandLandmarks[0];
-      // Index fingertip is landmark 8
-      const fingertip = landmarks[8];
-
-      // Convert normalized coordinates to canvas coordinates
-      // Mirror the x coordinate since camera is mirrored
-      const x = (1 - fingertip.x) * width;
-      const y = fingertip.y * height;
-      const now = Date.now();
-
-      // Calculate velocity
-      let velocity = 0;
-      if (lastPositionRef.current) {
-        const dx = x - lastPositionRef.current.x;
-        const dy = y - lastPositionRef.current.y;
-        const dt = Math.max(1, now - lastPositionRef.current.timestamp);
-        velocity = Math.sqrt(dx * dx + dy * dy) / (dt / 16.67);
-      }
-
-      lastPositionRef.current = { x, y, timestamp: now };
-
-      // Add every point for reliable collision detection
-      trailRef.current.push({ x, y, timestamp: now });
-      if (trailRef.current.length > TRAIL_LENGTH) {
-        trailRef.current.shift();
-      }
-
-      // Detect swipe
-      const newIsSwiping = velocity > VELOCITY_THRESHOLD;
-      setIsSwiping(newIsSwiping);
-
-      setHandPosition({
-        x,
-        y,
-        velocity,
-        isTracking: true,
-      });
-    } else {
-      handTrackingActiveRef.current = false;
-      setHandDetected(false);
-      // Don't set isTracking to false - mouse might be active
-      // Only clear trail if mouse is not down
-      if (!isMouseDownRef.current) {
-        trailRef.current = [];
-      }
+    refreshCameras();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshCameras);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshCameras);
+  }, [refreshCameras]);
+
+  // The stream is gone - drop the hands now and let recovery reopen it
+  const markLost = useCallback((reason: string) => {
+    console.warn('Camera lost:', reason);
+    handSource.reset();
+    setHandDetected(false);
+    dispatchTracking({ type: 'lost', reason });
+  }, [handSource]);
+
+  // Tear down camera, model and stream so tracking can start over from scratch
+  const stopTracking = useCallback(() => {
+    attemptRef.current++;
+    if (replayTimerRef.current) {
+      clearInterval(replayTimerRef.current);
+      replayTimerRef.current = null;
     }
-  }, []);
+    if (cameraRef.current) {
+      cameraRef.current.stop();
+      cameraRef.current = null;
+    }
+    if (handsRef.current) {
+      handsRef.current.close();
+      handsRef.current = null;
+    }
+    if (videoRef.current?.parentNode) {
+      videoRef.current.parentNode.removeChild(videoRef.current);
+      videoRef.current = null;
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    handSource.reset();
+    setHandDetected(false);
+  }, [handSource]);
+
+  // Every model result, live or replayed, goes through here
+  const handleHandsResults = useCallback((results: HandResults) => {
+    const now = replayRef.current?.now() ?? Date.now();
+    lastResultAtRef.current = now;
+    recorder.record(results, now);
+    handSource.handleResults(results, now);
+    setHandDetected((results.multiHandLandmarks?.length ?? 0) > 0);
+    dispatchTracking({ type: 'results' });
+  }, [handSource, recorder]);
 
   // Extracted initHandTracking as useCallback so it can be called from both useEffect and requestCamera
   const initHandTracking = useCallback(async () => {
     const INIT_TIMEOUT = 15000; // 15 second timeout (increased for slow networks)
 
-    const initPromise = async () => {
-      // Access MediaPipe from global window (loaded via CDN)
-      const HandsClass = (window as any).Hands;
-      const CameraClass = (window as any).Camera;
+    // Recovery retries on its own, so an attempt can outlive its timeout or be
+    // overtaken by a newer one; it only hands the camera over while still current
+    const attempt = attemptRef.current;
+    const isStale = () => attemptRef.current !== attempt;
+    // Opened by this attempt but not handed over yet - closed again if it goes stale
+    const pending: { stream?: MediaStream; video?: HTMLVideoElement } = {};
+    const release = () => {
+      pending.video?.remove();
+      pending.stream?.getTracks().forEach(track => track.stop());
+      delete pending.video;
+      delete pending.stream;
+    };
 
-      if (!HandsClass || typeof HandsClass !== 'function') {
-        throw new Error('MediaPipe failed to load. Check your internet connection.');
-      }
-      if (!CameraClass || typeof CameraClass !== 'function') {
-        throw new Error('MediaPipe Camera failed to load. Check your internet connection.');
+    const initPromise = async () => {
+      // A recording replays in real time, lined up with the wall clock from now
+      const replay = replayRef.current;
+      if (replay) {
+        dispatchTracking({ type: 'streamOpened' });
+        replay.rewind(Date.now());
+        replay.onResults(handleHandsResults);
+        handsRef.current = replay;
+        replayTimerRef.current = setInterval(() => replay.playUntil(Date.now()), REPLAY_POLL_MS);
+        return;
       }
 
+      // MediaPipe is bundled with the app and only fetched once tracking is wanted
+      const { Hands, Camera } = await loadMediaPipe();
+      if (isStale()) return;
+
       // === FIRST: Request camera permission DIRECTLY ===
       console.log('Requesting camera permission...');
+      const settings = cameraSettingsRef.current;
       let stream: MediaStream;
       try {
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: { width: 640, height: 480 }
-        });
+        stream = await openCamera(settings);
+        pending.stream = stream;
+        if (isStale()) return release();
         console.log('Camera permission granted!');
+        dispatchTracking({ type: 'streamOpened' });
+        setActiveCamera(stream.getVideoTracks()[0]?.getSettings() ?? null);
+        // Labels only show up once permission is granted
+        refreshCameras();
       } catch (permError: any) {
         console.error('Camera permission denied:', permError);
         throw permError; // Re-throw to be handled by outer catch with proper error type
@@ -232,71 +324,86 @@ export function useHandTracking(canvasWidth: number, canvasHeight: number) {
       video.style.width = '1px';
       video.style.height = '1px';
       document.body.appendChild(video);
+      pending.video = video;
 
       // Attach stream BEFORE playing
       video.srcObject = stream;
       await video.play();
+      if (isStale()) return release();
       videoRef.current = video;
       streamRef.current = stream;
+      // From here on stopTracking closes them
+      delete pending.video;
+      delete pending.stream;
+
+      // Unplugged, revoked or taken by another app - a torn down stream is ours and not lost
+      const track = stream.getVideoTracks()[0];
+      track?.addEventListener('ended', () => {
+        if (streamRef.current === stream) markLost('Camera disconnected');
+      });
+      track?.addEventListener('mute', () => {
+        if (streamRef.current !== stream) return;
+        dispatchTracking({ type: 'stalled', reason: 'Camera paused' });
+        setTimeout(() => {
+          if (streamRef.current === stream && track.muted) markLost('Camera stopped sending video');
+        }, MUTE_GRACE_MS);
+      });
 
-      // Initialize MediaPipe Hands with CDN files
+      // Initialize MediaPipe Hands with the wasm and model served from our origin
       console.log('Loading MediaPipe Hands model...');
-      const hands = new HandsClass({
-        locateFile: (file: string) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240/${file}`;
-        },
-      });
+      const hands = new Hands({ locateFile: locateHandsFile });
 
       hands.setOptions({
-        maxNumHands: 1,
+        maxNumHands: MAX_HANDS,
         modelComplexity: 1,
         minDetectionConfidence: 0.7,
         minTrackingConfidence: 0.5,
       });
 
-      hands.onResults(onResults);
+      hands.onResults(handleHandsResults);
       handsRef.current = hands;
 
       // Camera class will reuse our existing video element with stream
       console.log('Starting hand tracking...');
-      const camera = new CameraClass(video, {
+      const camera = new Camera(video, {
         onFrame: async () => {
           if (handsRef.current && videoRef.current) {
             try {
+              handSource.frameSent();
               await handsRef.current.send({ image: videoRef.current });
             } catch (e) {
               // Ignore send errors during cleanup
             }
           }
         },
-        width: 640,
-        height: 480,
+        width: settings.width,
+        height: settings.height,
       });
 
       cameraRef.current = camera;
       await camera.start();
+      if (isStale()) return;
       console.log('Hand tracking started successfully');
     };
 
+    let timeout: ReturnType<typeof setTimeout> | undefined;
     try {
       await Promise.race([
         initPromise(),
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('Camera initialization timeout - please try again')), INIT_TIMEOUT)
-        )
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Camera initialization timeout - please try again')), INIT_TIMEOUT);
+        }),
       ]);
-      
-      setCameraReady(true);
-      setInitError(null);
-      console.log('MediaPipe hand tracking initialized successfully');
+
+      if (!isStale()) console.log('MediaPipe hand tracking initialized successfully');
     } catch (error: any) {
+      release();
+      // A newer attempt or an unmount took over - this failure is no longer news
+      if (isStale()) return;
       console.error('Camera init failed:', error);
-      
-      // Clean up any partial stream
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-        streamRef.current = null;
-      }
+
+      // Close whatever was handed over; an attempt that timed out is stale from here on
+      stopTracking();
       
       // Differentiate error types
       const errorMessage = error?.message || 'Unknown error';
@@ -307,71 +414,75 @@ export function useHandTracking(canvasWidth: number, canvasHeight: number) {
          !errorMessage.includes('MediaPipe'));
       
       if (isPermissionError) {
-        setPermissionDenied(true);
-        setInitError('Camera permission was denied. Check browser settings.');
+        dispatchTracking({ type: 'error', message: 'Camera permission was denied. Check browser settings.', permissionDenied: true });
       } else if (errorMessage.includes('timeout')) {
-        setInitError('Camera initialization timed out. Please try again.');
-        // Don't set permissionDenied - allow retry
+        dispatchTracking({ type: 'error', message: 'Camera initialization timed out. Please try again.' });
       } else if (errorMessage.includes('MediaPipe')) {
-        setInitError('Hand tracking library failed to load. Check your connection.');
-        // Don't set permissionDenied - allow retry
+        dispatchTracking({ type: 'error', message: 'Hand tracking library failed to load. Try reloading the page.' });
       } else {
-        setInitError(errorMessage);
-        // Don't set permissionDenied - allow retry
+        dispatchTracking({ type: 'error', message: errorMessage });
       }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }, [handSource, handleHandsResults, refreshCameras, markLost, stopTracking]);
+
+  // One attempt at camera and model, from a clean slate
+  const startTracking = useCallback(async () => {
+    isInitializingRef.current = true;
+    stopTracking();
+    try {
+      await initHandTracking();
+    } finally {
+      // Always reset the flag, even on error
+      isInitializingRef.current = false;
     }
-  }, [onResults]);
+  }, [initHandTracking, stopTracking]);
 
-  // Camera stream health monitoring - only run AFTER camera is ready
+  // Results stopping while the stream looks fine means the model or camera has stalled;
+  // a stall that doesn't clear up is handed to recovery like any other lost camera
   useEffect(() => {
-    // Don't run health check until camera is successfully initialized
-    if (!cameraReady) return;
-    
-    let healthCheckInterval: ReturnType<typeof setInterval>;
-    
-    // Give the stream time to stabilize after initialization
-    const stabilizationDelay = setTimeout(() => {
-      healthCheckInterval = setInterval(() => {
-        if (streamRef.current) {
-          const videoTracks = streamRef.current.getVideoTracks();
-          const isHealthy = videoTracks.length > 0 && 
-                            videoTracks[0].readyState === 'live' &&
-                            videoTracks[0].enabled;
-          
-          if (!isHealthy) {
-            console.warn('Camera stream may be unhealthy - track state:', 
-              videoTracks[0]?.readyState, 'enabled:', videoTracks[0]?.enabled);
-            // Don't auto-recover - just log. User can retry manually if needed.
-          }
-        }
-      }, 3000);
-    }, 3000);
-
-    return () => {
-      clearTimeout(stabilizationDelay);
-      if (healthCheckInterval) {
-        clearInterval(healthCheckInterval);
+    if (tracking.state !== 'running' && tracking.state !== 'degraded') return;
+    const watchdog = setInterval(() => {
+      const event = stallEvent(tracking.state, Date.now() - lastResultAtRef.current);
+      if (event?.type === 'lost') {
+        markLost(event.reason);
+      } else if (event) {
+        setHandDetected(false);
+        dispatchTracking(event);
       }
-    };
-  }, [cameraReady]);
+    }, STALL_MS / 2);
+    return () => clearInterval(watchdog);
+  }, [tracking.state, markLost]);
 
-  // Cleanup on unmount only - camera initialization is triggered by user clicking "Enable Camera"
+  // Unplugging doesn't always end the track, so check the camera is still listed
   useEffect(() => {
-    return () => {
-      if (cameraRef.current) {
-        cameraRef.current.stop();
-      }
-      if (handsRef.current) {
-        handsRef.current.close();
-      }
-      if (videoRef.current && videoRef.current.parentNode) {
-        videoRef.current.parentNode.removeChild(videoRef.current);
-      }
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
+    const handleDeviceChange = async () => {
+      const deviceId = streamRef.current?.getVideoTracks()[0]?.getSettings().deviceId;
+      if (!deviceId) return;
+      const cameras = await listCameras();
+      if (streamRef.current && !cameras.some(camera => camera.deviceId === deviceId)) {
+        markLost('Camera unplugged');
       }
     };
-  }, []);
+    navigator.mediaDevices?.addEventListener?.('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', handleDeviceChange);
+  }, [markLost]);
+
+  // Reopen a lost camera, waiting longer after every failed try
+  useEffect(() => {
+    if (tracking.state !== 'lost') return;
+    const timer = setTimeout(() => {
+      if (isInitializingRef.current) return;
+      console.log(`Reacquiring camera (attempt ${tracking.attempt + 1})`);
+      dispatchTracking({ type: 'recover' });
+      startTracking();
+    }, recoveryDelay(tracking.attempt));
+    return () => clearTimeout(timer);
+  }, [tracking.state, tracking.attempt, startTracking]);
+
+  // Cleanup on unmount only - camera initialization is triggered by user clicking "Enable Camera"
+  useEffect(() => stopTracking, [stopTracking]);
 
   const toggleCamera = useCallback(() => {
     setShowCamera((prev) => !prev);
@@ -379,80 +490,73 @@ export function useHandTracking(canvasWidth: number, canvasHeight: number) {
 
   const enableMouseFallback = useCallback(() => {
     setUseMouseFallback(true);
-    setPermissionDenied(false);
-    setIsLoading(false);
     setHandPosition((prev) => ({ ...prev, isTracking: true }));
   }, []);
 
   // Explicitly request camera permission - triggers browser popup on user gesture
   const requestCamera = useCallback(async () => {
+    const { state, permissionDenied } = trackingRef.current;
     // Only block permanently if permission was denied by user
-    if (permissionDenied && initError?.includes('permission')) {
+    if (state === 'failed' && permissionDenied) {
       console.log('requestCamera blocked - permission permanently denied');
       return;
     }
-    
+
     // Block if already initializing
-    if (isInitializingRef.current || isLoading) {
-      console.log('requestCamera blocked - already initializing:', { 
-        ref: isInitializingRef.current, 
-        loading: isLoading 
-      });
+    if (isInitializingRef.current || isTrackingStarting(state)) {
+      console.log('requestCamera blocked - already initializing:', state);
       return;
     }
-    
+
     console.log('requestCamera starting...');
-    setCameraAttempted(true);
-    isInitializingRef.current = true;
-    setIsLoading(true);
-    setPermissionDenied(false);
-    setCameraReady(false);
-    setInitError(null); // Clear previous error for retry
-    
-    // Clean up existing camera/hands if any
-    if (cameraRef.current) {
-      cameraRef.current.stop();
-      cameraRef.current = null;
-    }
-    if (handsRef.current) {
-      handsRef.current.close();
-      handsRef.current = null;
-    }
-    if (videoRef.current?.parentNode) {
-      videoRef.current.parentNode.removeChild(videoRef.current);
-      videoRef.current = null;
-    }
+    dispatchTracking({ type: 'request' });
+    await startTracking();
+  }, [startTracking]);
+
+  // Remember the choice, and restart tracking on the new camera if one is running
+  const changeCameraSettings = useCallback((settings: CameraSettings) => {
+    cameraSettingsRef.current = settings;
+    saveCameraSettings(settings);
+    setCameraSettings(settings);
     if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    
-    try {
-      await initHandTracking();
-    } finally {
-      // Always reset the flag and loading state, even on error
-      isInitializingRef.current = false;
-      setIsLoading(false);
-      console.log('requestCamera finished, ref reset');
+      requestCamera();
     }
-  }, [initHandTracking, permissionDenied, initError, isLoading]);
+  }, [requestCamera]);
 
   return {
     handPosition,
     isSwiping,
     showCamera,
     toggleCamera,
-    getTrail,
-    isLoading,
-    permissionDenied,
+    getBlades,
+    inputPriority,
+    setInputPriority,
+    gestureEvents: handSource.gestures.events,
+    bladeArmed,
+    toggleHandBlade,
+    bladeArming,
+    setBladeArming,
+    filterSettings,
+    setFilterSettings,
+    getFilterSamples,
+    lookaheadMs,
+    setLookahead,
+    getLatency,
+    getTelemetry,
+    isRecording,
+    toggleRecording,
+    getRawFingertip,
+    setPlayArea,
+    cameras,
+    cameraSettings,
+    activeCamera,
+    changeCameraSettings,
+    tracking,
     useMouseFallback,
     enableMouseFallback,
     requestCamera,
     videoRef,
     streamRef,
-    cameraReady,
     handDetected,
-    cameraAttempted,
-    initError,
   };
 }
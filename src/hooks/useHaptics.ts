@@ -0,0 +1,34 @@
+/**
+ * Vibration feedback for devices that support it (mostly phones)
+ * Subscribes to engine events; silently does nothing elsewhere
+ */
+
+import { useEffect } from 'react';
+import { GameEventBus } from '@/engine/events';
+
+const PATTERNS = {
+  slice: 12,
+  special: [20, 40, 20],
+  miss: 40,
+  bomb: [80, 40, 160],
+};
+
+function vibrate(pattern: number | number[]) {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate(pattern);
+  }
+}
+
+export function useHaptics(events: GameEventBus, enabled = true) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribers = [
+      events.on('fruitSliced', () => vibrate(PATTERNS.slice)),
+      events.on('specialActivated', () => vibrate(PATTERNS.special)),
+      events.on('fruitMissed', () => vibrate(PATTERNS.miss)),
+      events.on('bombHit', () => vibrate(PATTERNS.bomb)),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [events, enabled]);
+}
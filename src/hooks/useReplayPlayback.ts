@@ -0,0 +1,85 @@
+/**
+ * useReplayPlayback - Drives a ReplayPlayback from animation frames
+ * Play, pause, scrub and playback speed for the replay page
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Replay, ReplayPlayback } from '@/engine/replay';
+import { GameWorldSnapshot } from '@/engine/GameWorld';
+import { Blade } from '@/types/game';
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+interface PlaybackFrame {
+  snapshot: GameWorldSnapshot;
+  blades: Blade[];
+}
+
+function frameOf(playback: ReplayPlayback): PlaybackFrame {
+  return {
+    snapshot: playback.getSnapshot(),
+    blades: playback.getBlades(),
+  };
+}
+
+export function useReplayPlayback(replay: Replay) {
+  const [playback] = useState(() => new ReplayPlayback(replay));
+  const [frame, setFrame] = useState(() => frameOf(playback));
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const lastFrameTimeRef = useRef<number | null>(null);
+
+  const publish = useCallback(() => setFrame(frameOf(playback)), [playback]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let animationId: number;
+    lastFrameTimeRef.current = null;
+
+    const tick = (timestamp: number) => {
+      const frameMs = lastFrameTimeRef.current === null ? 0 : timestamp - lastFrameTimeRef.current;
+      lastFrameTimeRef.current = timestamp;
+
+      playback.seek(Math.min(replay.duration, playback.time + frameMs * speed));
+      publish();
+
+      if (playback.finished || playback.time >= replay.duration) {
+        setIsPlaying(false);
+        return;
+      }
+      animationId = requestAnimationFrame(tick);
+    };
+
+    animationId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationId);
+  }, [isPlaying, speed, playback, replay.duration, publish]);
+
+  const togglePlaying = useCallback(() => {
+    // Playing from the end starts over
+    if (!isPlaying && (playback.finished || playback.time >= replay.duration)) {
+      playback.seek(0);
+      publish();
+    }
+    setIsPlaying(prev => !prev);
+  }, [isPlaying, playback, replay.duration, publish]);
+
+  const seek = useCallback((time: number) => {
+    playback.seek(time);
+    publish();
+  }, [playback, publish]);
+
+  // Replays render exactly on simulation steps - no interpolation
+  const getRenderClock = useCallback(() => ({ alpha: 1, time: playback.time }), [playback]);
+
+  return {
+    ...frame,
+    time: frame.snapshot.time,
+    isPlaying,
+    speed,
+    setSpeed,
+    togglePlaying,
+    seek,
+    getRenderClock,
+  };
+}
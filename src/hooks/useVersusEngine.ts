@@ -0,0 +1,103 @@
+/**
+ * useVersusEngine - React binding around a split-screen VersusMatch
+ * Same fixed-timestep loop as useGameEngine, publishing one snapshot per player.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { GameState, Blade } from '@/types/game';
+import { GameWorldSnapshot } from '@/engine/GameWorld';
+import { createGameEventBus } from '@/engine/events';
+import { VersusMatch, HandAssignment, VERSUS_PLAYERS } from '@/engine/versus';
+import { VERSUS_MODE } from '@/engine/modes';
+import { FixedTimestep, FIXED_STEP_MS } from '@/utils/fixedTimestep';
+import { randomSeed } from '@/utils/random';
+
+export function useVersusEngine(canvasWidth: number, canvasHeight: number) {
+  const [gameState, setGameState] = useState<GameState>('menu');
+  const [players, setPlayers] = useState<GameWorldSnapshot[]>([]);
+  const [winner, setWinner] = useState<number | null>(null);
+  const [assignment, setAssignment] = useState<HandAssignment>('side');
+
+  const matchRef = useRef<VersusMatch | null>(null);
+  // Both players' worlds publish to the same bus
+  const [events] = useState(createGameEventBus);
+  const timestepRef = useRef(new FixedTimestep());
+
+  // One clock per half - a player who is out stops at their own last step
+  const [renderClocks] = useState(() =>
+    Array.from({ length: VERSUS_PLAYERS }, (_, player) => () => {
+      const alpha = timestepRef.current.alpha;
+      const time = matchRef.current?.players[player].time ?? 0;
+      return { alpha, time: time - (1 - alpha) * FIXED_STEP_MS };
+    })
+  );
+
+  const startMatch = useCallback((handAssignment: HandAssignment) => {
+    const match = new VersusMatch({
+      width: canvasWidth,
+      height: canvasHeight,
+      seed: randomSeed(),
+      assignment: handAssignment,
+      events,
+    });
+
+    matchRef.current = match;
+    timestepRef.current.reset();
+    setAssignment(handAssignment);
+    setPlayers(match.getSnapshots());
+    setWinner(null);
+    setGameState('playing');
+  }, [canvasWidth, canvasHeight, events]);
+
+  const pauseGame = useCallback(() => {
+    setGameState(prev => (prev === 'playing' ? 'paused' : prev));
+  }, []);
+
+  const resumeGame = useCallback(() => {
+    if (gameState !== 'paused') return;
+    timestepRef.current.reset();
+    setGameState('playing');
+  }, [gameState]);
+
+  const returnToMenu = useCallback(() => {
+    matchRef.current = null;
+    setPlayers([]);
+    setGameState('menu');
+  }, []);
+
+  // Blades are split between the players once per frame, then every step cuts with them
+  const advance = useCallback((frameMs: number, blades: Blade[]) => {
+    const match = matchRef.current;
+    if (!match) return;
+
+    const cuts = match.cutsFor(blades);
+    let stepped = false;
+    timestepRef.current.advance(frameMs, () => {
+      match.step(FIXED_STEP_MS, cuts);
+      stepped = true;
+    });
+
+    if (stepped) {
+      setPlayers(match.getSnapshots());
+      if (match.finished) {
+        setWinner(match.winner);
+        setGameState('gameover');
+      }
+    }
+  }, []);
+
+  return {
+    gameState,
+    events,
+    rules: VERSUS_MODE,
+    assignment,
+    players,
+    winner,
+    startMatch,
+    pauseGame,
+    resumeGame,
+    returnToMenu,
+    advance,
+    renderClocks,
+  };
+}
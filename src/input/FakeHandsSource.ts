@@ -0,0 +1,79 @@
+/**
+ * FakeHandsSource - Stands in for MediaPipe Hands by replaying a recording
+ * It has the same onResults/send/close surface, so useHandTracking can run on
+ * it without a camera or wasm. Results carry no time of their own; now() is the
+ * recorded time of the frame being delivered, the clock to stamp them with.
+ */
+
+import { HandResults } from './MediaPipeSource';
+import { LandmarkRecording } from './landmarkRecording';
+
+export type HandsResultsListener = (results: HandResults) => void;
+
+export class FakeHandsSource {
+  private listener: HandsResultsListener | null = null;
+  private index = 0;
+  private time: number;
+
+  // Recorded times are offset by startAt, e.g. to line them up with the wall clock
+  constructor(readonly recording: LandmarkRecording, private startAt = 0) {
+    this.time = startAt;
+  }
+
+  onResults(listener: HandsResultsListener): void {
+    this.listener = listener;
+  }
+
+  /** Like Hands.send, but each call delivers the next recorded frame instead of running the model */
+  async send(): Promise<void> {
+    this.step();
+  }
+
+  async close(): Promise<void> {
+    this.listener = null;
+  }
+
+  /** Recorded time of the latest frame delivered */
+  now(): number {
+    return this.time;
+  }
+
+  get done(): boolean {
+    return this.index >= this.recording.frames.length;
+  }
+
+  /** Timestamp of the next frame, null once the recording has run out */
+  peek(): number | null {
+    const frame = this.recording.frames[this.index];
+    return frame ? this.startAt + frame.t : null;
+  }
+
+  /** Delivers the next frame; false once the recording has run out */
+  step(): boolean {
+    const frame = this.recording.frames[this.index];
+    if (!frame) return false;
+    this.index++;
+    this.time = this.startAt + frame.t;
+    const { multiHandLandmarks, multiHandedness } = frame;
+    this.listener?.({ multiHandLandmarks, multiHandedness });
+    return true;
+  }
+
+  /** Delivers every frame up to and including this time */
+  playUntil(timestamp: number): void {
+    while (!this.done && (this.peek() ?? Infinity) <= timestamp) {
+      this.step();
+    }
+  }
+
+  playAll(): void {
+    while (this.step());
+  }
+
+  /** Back to the first frame, optionally replaying from a new start time */
+  rewind(startAt = this.startAt): void {
+    this.index = 0;
+    this.startAt = startAt;
+    this.time = startAt;
+  }
+}
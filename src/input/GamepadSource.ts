@@ -0,0 +1,98 @@
+/**
+ * GamepadSource - A stick-driven blade per connected controller
+ * The left stick moves the blade; holding A or the right trigger cuts.
+ * The Gamepad API has no events for sticks, so pads are polled every frame.
+ */
+
+import { EventBus } from '@/engine/EventBus';
+import { InputSource, InputSourceEvents } from './InputSource';
+
+// Standard mapping: A is button 0, the right trigger is button 7
+const CUT_BUTTONS = [0, 7];
+const DEADZONE = 0.15;
+// Full deflection crosses the width of the screen in about this long
+const CROSSING_MS = 700;
+
+interface PadState {
+  x: number;
+  y: number;
+  cutting: boolean;
+}
+
+export class GamepadSource implements InputSource {
+  readonly kind = 'gamepad';
+  readonly predicted = false;
+  readonly events = new EventBus<InputSourceEvents>();
+  private pads = new Map<number, PadState>();
+  private frame: number | null = null;
+  private lastPoll: number | null = null;
+
+  constructor(private readonly getBounds: () => { width: number; height: number }) {}
+
+  start(): void {
+    if (this.frame === null && typeof navigator.getGamepads === 'function') {
+      this.frame = requestAnimationFrame(this.poll);
+    }
+  }
+
+  stop(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.pads.forEach((_, index) => this.events.emit('release', { blade: `gamepad-${index}` }));
+    this.pads.clear();
+    this.lastPoll = null;
+  }
+
+  private poll = () => {
+    const now = Date.now();
+    const dt = this.lastPoll === null ? 0 : Math.min(now - this.lastPoll, 100);
+    this.lastPoll = now;
+
+    const { width, height } = this.getBounds();
+    const connected = navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+    const primary = connected[0]?.index;
+
+    connected.forEach(pad => {
+      const blade = `gamepad-${pad.index}`;
+      const state = this.pads.get(pad.index) ?? { x: width / 2, y: height / 2, cutting: false };
+      this.pads.set(pad.index, state);
+
+      let sx = pad.axes[0] ?? 0;
+      let sy = pad.axes[1] ?? 0;
+      if (Math.hypot(sx, sy) < DEADZONE) {
+        sx = 0;
+        sy = 0;
+      }
+      const speed = (width / CROSSING_MS) * dt;
+      state.x = Math.min(Math.max(state.x + sx * speed, 0), width);
+      state.y = Math.min(Math.max(state.y + sy * speed, 0), height);
+
+      const cutting = CUT_BUTTONS.some(button => pad.buttons[button]?.pressed);
+      if (state.cutting && !cutting) {
+        this.events.emit('release', { blade });
+      }
+      state.cutting = cutting;
+
+      // A pad left on the table must not claim the cursor, so only report it while in use
+      if (sx !== 0 || sy !== 0 || cutting) {
+        this.events.emit('sample', {
+          blade,
+          point: { x: state.x, y: state.y, timestamp: now },
+          cutting,
+          primary: pad.index === primary,
+        });
+      }
+    });
+
+    // Unplugged pads drop their blades
+    this.pads.forEach((_, index) => {
+      if (connected.some(pad => pad.index === index)) return;
+      this.events.emit('release', { blade: `gamepad-${index}` });
+      this.pads.delete(index);
+    });
+
+    this.frame = requestAnimationFrame(this.poll);
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * InputManager - Merges every input source into one set of blades
+ * All sources cut at once. The player's priority order only decides which
+ * source moves the menu cursor when more than one is in use.
+ */
+
+import { Blade, BladePoint } from '@/types/game';
+import { EventBus } from '@/engine/EventBus';
+import { predictBlade } from '@/utils/bladePrediction';
+import { BladeSample, InputKind, InputSource, INPUT_KINDS } from './InputSource';
+
+const VELOCITY_THRESHOLD = 5; // Lower = easier to trigger swipe
+const TRAIL_LENGTH = 20; // Longer trail for better collision coverage
+// A lower-priority source takes the cursor once every source above it has been quiet this long
+const CURSOR_HANDOFF_MS = 500;
+
+const INPUT_PRIORITY_KEY = 'fruitNinjaInputPriority';
+
+export const DEFAULT_INPUT_PRIORITY: InputKind[] = INPUT_KINDS;
+
+export interface Cursor {
+  x: number;
+  y: number;
+  velocity: number;
+  isSwiping: boolean;
+  // Whether the cursor's blade would cut right now
+  cutting: boolean;
+  kind: InputKind;
+}
+
+export interface InputManagerEvents {
+  cursor: Cursor;
+}
+
+interface TrackedBlade {
+  kind: InputKind;
+  predicted: boolean;
+  trail: BladePoint[];
+  isSwiping: boolean;
+  // Last sample, hovering included, for the swipe speed
+  last: BladePoint;
+}
+
+function velocityBetween(last: BladePoint | null, point: BladePoint): number {
+  if (!last) return 0;
+  const dt = Math.max(1, point.timestamp - last.timestamp);
+  return Math.hypot(point.x - last.x, point.y - last.y) / (dt / 16.67);
+}
+
+export class InputManager {
+  readonly events = new EventBus<InputManagerEvents>();
+  private sources: InputSource[] = [];
+  private unsubscribers: Array<() => void> = [];
+  private blades = new Map<string, TrackedBlade>();
+  // When each kind last moved its primary blade
+  private lastActive = new Map<InputKind, number>();
+  private cursorBlade: string | null = null;
+  private priority: InputKind[];
+
+  constructor(priority: InputKind[] = DEFAULT_INPUT_PRIORITY) {
+    this.priority = priority;
+  }
+
+  add(source: InputSource): void {
+    this.sources.push(source);
+    this.unsubscribers.push(
+      source.events.on('sample', sample => this.handleSample(source, sample)),
+      source.events.on('release', ({ blade }) => this.handleRelease(source.kind, blade)),
+    );
+  }
+
+  start(): void {
+    this.sources.forEach(source => source.start());
+  }
+
+  stop(): void {
+    this.sources.forEach(source => source.stop());
+    this.blades.clear();
+    this.lastActive.clear();
+    this.cursorBlade = null;
+  }
+
+  /** Stops every source and forgets them */
+  dispose(): void {
+    this.stop();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.sources = [];
+    this.events.clear();
+  }
+
+  getPriority(): InputKind[] {
+    return this.priority;
+  }
+
+  setPriority(priority: InputKind[]): void {
+    this.priority = priority;
+  }
+
+  /** Blades in priority order; idle empty ones are left out and camera blades are predicted */
+  getBlades(now: number, lookaheadMs: number): Blade[] {
+    const blades: Blade[] = [];
+    this.priority.forEach(kind => {
+      this.blades.forEach((tracked, id) => {
+        if (tracked.kind !== kind) return;
+        if (tracked.trail.length === 0 && !tracked.isSwiping) return;
+        const blade = { id, trail: tracked.trail, isSwiping: tracked.isSwiping };
+        blades.push(tracked.predicted ? predictBlade(blade, now, lookaheadMs) : blade);
+      });
+    });
+    return blades;
+  }
+
+  private handleSample(source: InputSource, { blade, point, cutting, primary }: BladeSample): void {
+    const tracked = this.blades.get(blade) ?? {
+      kind: source.kind,
+      predicted: source.predicted,
+      trail: [],
+      isSwiping: false,
+      last: point,
+    };
+    const velocity = velocityBetween(tracked.last, point);
+    tracked.last = point;
+
+    if (cutting) {
+      tracked.trail.push(point);
+      if (tracked.trail.length > TRAIL_LENGTH) {
+        tracked.trail.shift();
+      }
+    }
+    tracked.isSwiping = cutting && velocity > VELOCITY_THRESHOLD;
+    this.blades.set(blade, tracked);
+
+    if (!primary) return;
+    this.lastActive.set(source.kind, point.timestamp);
+    if (this.outranked(source.kind, point.timestamp)) return;
+
+    this.cursorBlade = blade;
+    this.events.emit('cursor', { x: point.x, y: point.y, velocity, isSwiping: tracked.isSwiping, cutting, kind: source.kind });
+  }
+
+  private handleRelease(kind: InputKind, blade: string): void {
+    const tracked = this.blades.get(blade);
+    this.blades.delete(blade);
+    if (blade !== this.cursorBlade) return;
+
+    // Hand the cursor straight back to whatever is still in use
+    this.lastActive.delete(kind);
+    this.cursorBlade = null;
+    if (tracked) {
+      this.events.emit('cursor', { x: tracked.last.x, y: tracked.last.y, velocity: 0, isSwiping: false, cutting: false, kind });
+    }
+  }
+
+  // Whether a source ahead of this one in the priority order is still in use
+  private outranked(kind: InputKind, now: number): boolean {
+    const rank = this.priority.indexOf(kind);
+    return this.priority.slice(0, rank).some(other => {
+      const lastActive = this.lastActive.get(other);
+      return lastActive !== undefined && now - lastActive < CURSOR_HANDOFF_MS;
+    });
+  }
+}
+
+/** Stored priority order, falling back to the default unless it names every kind once */
+export function loadInputPriority(): InputKind[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(INPUT_PRIORITY_KEY) || '[]');
+    const valid =
+      Array.isArray(stored) &&
+      stored.length === INPUT_KINDS.length &&
+      INPUT_KINDS.every(kind => stored.includes(kind));
+    return valid ? stored : DEFAULT_INPUT_PRIORITY;
+  } catch {
+    return DEFAULT_INPUT_PRIORITY;
+  }
+}
+
+export function saveInputPriority(priority: InputKind[]): void {
+  localStorage.setItem(INPUT_PRIORITY_KEY, JSON.stringify(priority));
+}
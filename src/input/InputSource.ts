@@ -0,0 +1,37 @@
+/**
+ * InputSource - Anything that can steer a blade
+ * A source only reports where each of its blades is. Trails, swipe speed,
+ * prediction and which source drives the menu cursor are the InputManager's job.
+ */
+
+import { BladePoint } from '@/types/game';
+import { EventBus } from '@/engine/EventBus';
+
+export type InputKind = 'hand' | 'pointer' | 'gamepad';
+
+export const INPUT_KINDS: InputKind[] = ['hand', 'pointer', 'gamepad'];
+
+export interface BladeSample {
+  // Unique across sources - 'pointer', 'hand-Left', 'gamepad-0', ...
+  blade: string;
+  point: BladePoint;
+  // False while hovering: the cursor moves but nothing is cut
+  cutting: boolean;
+  // The source's main blade, the only one allowed to drive the menu cursor
+  primary: boolean;
+}
+
+export interface InputSourceEvents {
+  sample: BladeSample;
+  // The blade was lifted or lost, so its trail is dropped
+  release: { blade: string };
+}
+
+export interface InputSource {
+  readonly kind: InputKind;
+  // Camera sources lag behind the player and have their tips predicted ahead
+  readonly predicted: boolean;
+  readonly events: EventBus<InputSourceEvents>;
+  start(): void;
+  stop(): void;
+}
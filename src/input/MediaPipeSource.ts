@@ -0,0 +1,257 @@
+/**
+ * MediaPipeSource - One blade per hand seen by MediaPipe Hands
+ * The camera and model are run by useHandTracking, which feeds every result in
+ * here. Each index fingertip is mirrored, mapped through the calibrated play
+ * area and smoothed before it is reported, and the whole hand is read for gestures.
+ */
+
+import type { Results } from '@mediapipe/hands';
+import { BladePoint } from '@/types/game';
+import { EventBus } from '@/engine/EventBus';
+import { OneEuroSettings, PointFilter } from '@/utils/oneEuroFilter';
+import { predictPoint } from '@/utils/bladePrediction';
+import { Homography, Point, applyHomography } from '@/utils/homography';
+import { InputSource, InputSourceEvents } from './InputSource';
+import { Gesture, GestureRecognizer } from './gestures';
+import { TelemetryHand, TrackingTelemetry } from './trackingTelemetry';
+
+const FILTER_SAMPLES = 60; // Raw vs filtered history kept for the debug overlay
+// Enough past samples to score the predictor against
+const HISTORY_LENGTH = 3;
+// Arming takes a clear pose; it only lapses once the pose is clearly gone,
+// so a blade doesn't flicker off mid-swipe
+const ARM_CONFIDENCE = 0.6;
+const DISARM_CONFIDENCE = 0.4;
+
+const BLADE_ARMING_KEY = 'fruitNinjaBladeArming';
+
+// When a hand's blade cuts: always, or only while it holds a pose
+export type BladeArming = 'always' | Extract<Gesture, 'point' | 'pinch'>;
+
+export const BLADE_ARMING_OPTIONS: BladeArming[] = ['always', 'point', 'pinch'];
+
+// The parts of a Hands result that tracking reads
+export type HandResults = Pick<Results, 'multiHandLandmarks' | 'multiHandedness'>;
+
+// One fingertip sample of the first hand, before and after smoothing
+export interface FilterSample {
+  raw: { x: number; y: number };
+  filtered: { x: number; y: number };
+  timestamp: number;
+}
+
+// Running averages of how far behind the finger the blade is
+export interface TrackingLatency {
+  // Frame handed to the model until its landmarks came back
+  pipelineMs: number;
+  // How far each real sample landed from where prediction expected it
+  predictionErrorPx: number;
+}
+
+interface TrackedHand {
+  filter: PointFilter;
+  history: BladePoint[];
+  armed: boolean;
+}
+
+export interface MediaPipeSourceOptions {
+  // Canvas size the normalized landmarks are scaled to
+  getBounds: () => { width: number; height: number };
+  filterSettings: OneEuroSettings;
+  arming?: BladeArming;
+}
+
+function smoothAverage(average: number, value: number): number {
+  return average === 0 ? value : average + (value - average) * 0.1;
+}
+
+export class MediaPipeSource implements InputSource {
+  readonly kind = 'hand';
+  readonly predicted = true;
+  readonly events = new EventBus<InputSourceEvents>();
+  readonly gestures = new GestureRecognizer();
+  readonly telemetry = new TrackingTelemetry();
+  private readonly getBounds: () => { width: number; height: number };
+  private filterSettings: OneEuroSettings;
+  private hands = new Map<string, TrackedHand>();
+  private filterSamples: FilterSample[] = [];
+  private latency: TrackingLatency = { pipelineMs: 0, predictionErrorPx: 0 };
+  private frameSentAt: number | null = null;
+  // Calibrated play area -> screen, null to use the whole camera frame
+  private playArea: Homography | null = null;
+  private rawFingertip: Point | null = null;
+  // Off leaves the hands steering the cursor without cutting
+  private bladeEnabled = true;
+  private arming: BladeArming;
+
+  constructor({ getBounds, filterSettings, arming = 'always' }: MediaPipeSourceOptions) {
+    this.getBounds = getBounds;
+    this.filterSettings = filterSettings;
+    this.arming = arming;
+  }
+
+  // Results arrive from the camera pipeline, so there is nothing to start
+  start(): void {}
+
+  stop(): void {
+    this.reset();
+  }
+
+  /** Drops every hand, e.g. when the camera is torn down */
+  reset(): void {
+    this.hands.forEach((_, blade) => this.events.emit('release', { blade }));
+    this.hands.clear();
+    this.gestures.reset();
+    this.telemetry.reset();
+    this.rawFingertip = null;
+    this.frameSentAt = null;
+  }
+
+  // Retune the fingertip filter live - hands already on screen pick it up straight away
+  configureFilter(settings: OneEuroSettings): void {
+    this.filterSettings = settings;
+    this.hands.forEach(hand => hand.filter.configure(settings));
+  }
+
+  isBladeEnabled(): boolean {
+    return this.bladeEnabled;
+  }
+
+  setBladeEnabled(enabled: boolean): void {
+    if (enabled === this.bladeEnabled) return;
+    this.bladeEnabled = enabled;
+    // Drop the trails so a disabled blade stops cutting straight away
+    this.hands.forEach((_, blade) => this.events.emit('release', { blade }));
+  }
+
+  setArming(arming: BladeArming): void {
+    this.arming = arming;
+    // Every hand has to earn its blade again under the new rule
+    this.hands.forEach((hand, blade) => {
+      hand.armed = arming === 'always';
+      this.events.emit('release', { blade });
+    });
+  }
+
+  setPlayArea(homography: Homography | null): void {
+    this.playArea = homography;
+  }
+
+  getFilterSamples(): FilterSample[] {
+    return this.filterSamples;
+  }
+
+  getLatency(): TrackingLatency {
+    return this.latency;
+  }
+
+  /** First hand's fingertip in mirrored, normalized camera space - what calibration records */
+  getRawFingertip(): Point | null {
+    return this.rawFingertip;
+  }
+
+  /** Call as a frame is handed to the model, to time the pipeline */
+  frameSent(now = Date.now()): void {
+    this.frameSentAt = now;
+  }
+
+  handleResults(results: HandResults, now = Date.now()): void {
+    const { width, height } = this.getBounds();
+    const latency = this.latency;
+    const inferenceMs = this.frameSentAt === null ? null : now - this.frameSentAt;
+    if (inferenceMs !== null) {
+      latency.pipelineMs = smoothAverage(latency.pipelineMs, inferenceMs);
+      this.frameSentAt = null;
+    }
+
+    const named = new Set<string>();
+    const seen = new Set<string>();
+    const telemetryHands: TelemetryHand[] = [];
+    let fingertipSample: BladePoint | null = null;
+    (results.multiHandLandmarks ?? []).forEach((landmarks, index) => {
+      // Handedness keeps each hand on its own blade between frames
+      const handedness = results.multiHandedness?.[index];
+      const label = handedness?.label;
+      const blade = label && !named.has(`hand-${label}`) ? `hand-${label}` : `hand-${index}`;
+      named.add(blade);
+
+      // Index fingertip is landmark 8
+      const fingertip = landmarks[8];
+
+      // Mirror the x coordinate since camera is mirrored, then stretch the
+      // calibrated play area over the screen and convert to canvas coordinates
+      const camera = { x: 1 - fingertip.x, y: fingertip.y };
+      if (index === 0) this.rawFingertip = camera;
+      // Past the play area's horizon there is no screen point; the hand counts as gone
+      // for the frame rather than jumping to its uncalibrated position mid-stroke
+      const screen = this.playArea ? applyHomography(this.playArea, camera) : camera;
+      if (!screen) return;
+      seen.add(blade);
+      const rawX = screen.x * width;
+      const rawY = screen.y * height;
+
+      const hand = this.hands.get(blade) ?? {
+        filter: new PointFilter(this.filterSettings),
+        history: [],
+        armed: this.arming === 'always',
+      };
+      this.hands.set(blade, hand);
+      // Smooth out landmark jitter before it reaches the trail and the swipe check
+      const { x, y } = hand.filter.filter(rawX, rawY, now);
+
+      if (index === 0) {
+        // Score the predictor against the sample it was reaching for
+        const tip = hand.history[hand.history.length - 1];
+        const expected = tip && predictPoint(hand.history, now - tip.timestamp);
+        if (expected) {
+          latency.predictionErrorPx = smoothAverage(latency.predictionErrorPx, Math.hypot(expected.x - x, expected.y - y));
+        }
+
+        this.filterSamples.push({ raw: { x: rawX, y: rawY }, filtered: { x, y }, timestamp: now });
+        if (this.filterSamples.length > FILTER_SAMPLES) {
+          this.filterSamples.shift();
+        }
+      }
+
+      const point = { x, y, timestamp: now };
+      telemetryHands.push({ label: label ?? `${index}`, score: handedness?.score ?? 0, point });
+      if (index === 0) fingertipSample = point;
+      hand.history.push(point);
+      if (hand.history.length > HISTORY_LENGTH) {
+        hand.history.shift();
+      }
+
+      const scores = this.gestures.update(blade, landmarks, now);
+      if (this.arming !== 'always') {
+        const armed = scores[this.arming] >= (hand.armed ? DISARM_CONFIDENCE : ARM_CONFIDENCE);
+        // Dropping the pose ends the stroke, so re-arming elsewhere can't cut a line between the two
+        if (hand.armed && !armed) this.events.emit('release', { blade });
+        hand.armed = armed;
+      }
+
+      // The first hand also drives the cursor for menus and buttons
+      this.events.emit('sample', { blade, point, cutting: this.bladeEnabled && hand.armed, primary: index === 0 });
+    });
+
+    // Hands that left the frame drop their blades
+    this.hands.forEach((_, blade) => {
+      if (seen.has(blade)) return;
+      this.hands.delete(blade);
+      this.gestures.lost(blade, now);
+      this.events.emit('release', { blade });
+    });
+    if (named.size === 0) {
+      this.rawFingertip = null;
+    }
+    this.telemetry.record({ timestamp: now, inferenceMs, hands: telemetryHands, fingertip: fingertipSample });
+  }
+}
+
+export function loadBladeArming(): BladeArming {
+  const stored = localStorage.getItem(BLADE_ARMING_KEY) as BladeArming | null;
+  return stored && BLADE_ARMING_OPTIONS.includes(stored) ? stored : 'always';
+}
+
+export function saveBladeArming(arming: BladeArming): void {
+  localStorage.setItem(BLADE_ARMING_KEY, arming);
+}
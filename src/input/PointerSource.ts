@@ -0,0 +1,55 @@
+/**
+ * PointerSource - Mouse, touch and pen through Pointer Events
+ * Pressing cuts; a hovering mouse or pen only moves the cursor.
+ * Extra fingers on a touch screen are ignored - the primary pointer is the blade.
+ */
+
+import { EventBus } from '@/engine/EventBus';
+import { InputSource, InputSourceEvents } from './InputSource';
+
+const POINTER_BLADE = 'pointer';
+
+export class PointerSource implements InputSource {
+  readonly kind = 'pointer';
+  readonly predicted = false;
+  readonly events = new EventBus<InputSourceEvents>();
+  private pressed = false;
+
+  start(): void {
+    window.addEventListener('pointermove', this.handleMove, { passive: true });
+    window.addEventListener('pointerdown', this.handleDown, { passive: true });
+    window.addEventListener('pointerup', this.handleUp);
+    window.addEventListener('pointercancel', this.handleUp);
+  }
+
+  stop(): void {
+    window.removeEventListener('pointermove', this.handleMove);
+    window.removeEventListener('pointerdown', this.handleDown);
+    window.removeEventListener('pointerup', this.handleUp);
+    window.removeEventListener('pointercancel', this.handleUp);
+    this.pressed = false;
+  }
+
+  private handleMove = (e: PointerEvent) => {
+    if (!e.isPrimary) return;
+    this.events.emit('sample', {
+      blade: POINTER_BLADE,
+      point: { x: e.clientX, y: e.clientY, timestamp: Date.now() },
+      cutting: this.pressed,
+      primary: true,
+    });
+  };
+
+  // Every press starts a fresh stroke
+  private handleDown = (e: PointerEvent) => {
+    if (!e.isPrimary) return;
+    this.pressed = true;
+    this.events.emit('release', { blade: POINTER_BLADE });
+  };
+
+  private handleUp = (e: PointerEvent) => {
+    if (!e.isPrimary) return;
+    this.pressed = false;
+    this.events.emit('release', { blade: POINTER_BLADE });
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Gestures - hand poses read from the 21 MediaPipe landmarks
+ * Every pose gets a 0..1 confidence from finger extension and thumb position,
+ * measured relative to the size of the palm so distance from the camera
+ * doesn't matter. The recognizer only reports a pose once it has been held
+ * for a moment, so a hand passing through one mid-swipe doesn't trigger it.
+ */
+
+import type { NormalizedLandmark } from '@mediapipe/hands';
+import { EventBus } from '@/engine/EventBus';
+
+export type Gesture = 'pinch' | 'openPalm' | 'fist' | 'point' | 'thumbsUp';
+
+export const GESTURES: Gesture[] = ['pinch', 'openPalm', 'fist', 'point', 'thumbsUp'];
+
+export type GestureScores = Record<Gesture, number>;
+
+export interface GestureEvent {
+  // Blade id of the hand, e.g. 'hand-Left'
+  hand: string;
+  gesture: Gesture;
+  confidence: number;
+  timestamp: number;
+}
+
+export interface GestureEvents {
+  gestureStart: GestureEvent;
+  gestureEnd: GestureEvent;
+}
+
+// Below this the best pose counts as no pose at all
+export const MIN_GESTURE_CONFIDENCE = 0.6;
+// How long a pose (or its absence) must hold before it is reported
+export const GESTURE_DEBOUNCE_MS = 120;
+
+const WRIST = 0;
+const THUMB_MCP = 2;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+// Knuckle and tip of the index, middle, ring and little fingers
+const FINGERS = [
+  { mcp: 5, tip: 8 },
+  { mcp: 9, tip: 12 },
+  { mcp: 13, tip: 16 },
+  { mcp: 17, tip: 20 },
+];
+
+function distance(a: NormalizedLandmark, b: NormalizedLandmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// 0 at `from`, 1 at `to`, clamped; `to` may be below `from`
+function ramp(value: number, from: number, to: number): number {
+  return Math.min(Math.max((value - from) / (to - from), 0), 1);
+}
+
+/** Confidence for every gesture in a single frame */
+export function classifyHand(landmarks: NormalizedLandmark[]): GestureScores {
+  const wrist = landmarks[WRIST];
+  const palm = Math.max(distance(wrist, landmarks[MIDDLE_MCP]), 1e-6);
+
+  // A straight finger's tip is well past its knuckle from the wrist; a curled one folds back
+  const extended = FINGERS.map(({ mcp, tip }) =>
+    ramp(distance(wrist, landmarks[tip]) / Math.max(distance(wrist, landmarks[mcp]), 1e-6), 1.1, 1.6)
+  );
+  const curled = extended.map(value => 1 - value);
+  const allCurled = Math.min(...curled);
+
+  const thumbOut = ramp(distance(landmarks[THUMB_TIP], landmarks[INDEX_MCP]) / palm, 0.35, 0.7);
+  // Image y grows downwards, so an upright thumb has its tip above its knuckle
+  const thumbUp = ramp((landmarks[THUMB_MCP].y - landmarks[THUMB_TIP].y) / palm, 0.2, 0.6);
+  const thumbsUp = Math.min(allCurled, thumbOut, thumbUp);
+  const pinchClosed = ramp(distance(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palm, 0.45, 0.15);
+
+  return {
+    pinch: pinchClosed * (1 - allCurled),
+    openPalm: Math.min(...extended, thumbOut) * (1 - pinchClosed),
+    fist: allCurled * (1 - Math.min(thumbOut, thumbUp)),
+    point: Math.min(extended[0], curled[1], curled[2], curled[3]) * (1 - pinchClosed),
+    thumbsUp,
+  };
+}
+
+/** The most confident gesture, or null when none is convincing */
+export function bestGesture(scores: GestureScores): { gesture: Gesture; confidence: number } | null {
+  let best: { gesture: Gesture; confidence: number } | null = null;
+  for (const gesture of GESTURES) {
+    if (scores[gesture] >= MIN_GESTURE_CONFIDENCE && (!best || scores[gesture] > best.confidence)) {
+      best = { gesture, confidence: scores[gesture] };
+    }
+  }
+  return best;
+}
+
+interface HandGestureState {
+  // What was last reported
+  current: GestureEvent | null;
+  // What the frames say now, and since when
+  candidate: Gesture | null;
+  candidateSince: number;
+}
+
+export class GestureRecognizer {
+  readonly events = new EventBus<GestureEvents>();
+  private hands = new Map<string, HandGestureState>();
+
+  constructor(private readonly debounceMs: number = GESTURE_DEBOUNCE_MS) {}
+
+  /** Feed one frame of a hand's landmarks; returns that frame's raw scores */
+  update(hand: string, landmarks: NormalizedLandmark[], now: number): GestureScores {
+    const scores = classifyHand(landmarks);
+    const best = bestGesture(scores);
+    const state = this.hands.get(hand) ?? { current: null, candidate: null, candidateSince: now };
+    this.hands.set(hand, state);
+
+    const candidate = best?.gesture ?? null;
+    if (candidate !== state.candidate) {
+      state.candidate = candidate;
+      state.candidateSince = now;
+    }
+
+    if (state.current?.gesture === candidate) {
+      // Still held - keep the reported confidence fresh
+      if (best && state.current) state.current.confidence = best.confidence;
+      return scores;
+    }
+    if (now - state.candidateSince < this.debounceMs) return scores;
+
+    this.end(state, now);
+    if (best) {
+      state.current = { hand, gesture: best.gesture, confidence: best.confidence, timestamp: now };
+      this.events.emit('gestureStart', { ...state.current });
+    }
+    return scores;
+  }
+
+  /** The hand left the frame - whatever it was holding ends now */
+  lost(hand: string, now: number): void {
+    const state = this.hands.get(hand);
+    if (!state) return;
+    this.end(state, now);
+    this.hands.delete(hand);
+  }
+
+  /** The gesture a hand is currently holding, if any */
+  current(hand: string): GestureEvent | null {
+    return this.hands.get(hand)?.current ?? null;
+  }
+
+  reset(now = Date.now()): void {
+    this.hands.forEach(state => this.end(state, now));
+    this.hands.clear();
+  }
+
+  private end(state: HandGestureState, now: number): void {
+    if (!state.current) return;
+    this.events.emit('gestureEnd', { ...state.current, timestamp: now });
+    state.current = null;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Landmark recording - raw Hands results captured from a real session
+ * The F debug overlay records what the model saw to a JSON file; FakeHandsSource
+ * plays it back so filtering, swipes and collisions can be tested without a camera.
+ */
+
+import type { Handedness, NormalizedLandmark } from '@mediapipe/hands';
+import { HandResults } from './MediaPipeSource';
+
+// About two minutes at 30 fps, a few megabytes of JSON
+export const MAX_RECORDING_FRAMES = 3600;
+
+// Long enough for the browser to have started the download
+const DOWNLOAD_REVOKE_MS = 1000;
+
+// A hundred-thousandth of the frame is far below a pixel, and keeps the files small
+const round = (value: number) => Math.round(value * 1e5) / 1e5;
+
+export interface RecordedFrame {
+  // Milliseconds since the recording started
+  t: number;
+  multiHandLandmarks: NormalizedLandmark[][];
+  multiHandedness: Handedness[];
+}
+
+export interface LandmarkRecording {
+  version: 1;
+  // Absent from synthetic recordings, which were never captured
+  recordedAt?: string;
+  // Generated from a script rather than saved from a camera session
+  synthetic?: boolean;
+  // What the recording shows, for fixtures kept with the tests
+  note?: string;
+  // Canvas size during the session, so a replay can map landmarks the same way
+  width: number;
+  height: number;
+  frames: RecordedFrame[];
+}
+
+export class LandmarkRecorder {
+  private recording: LandmarkRecording | null = null;
+  private startedAt = 0;
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  start({ width, height }: { width: number; height: number }, now = Date.now()): void {
+    this.startedAt = now;
+    this.recording = { version: 1, recordedAt: new Date(now).toISOString(), width, height, frames: [] };
+  }
+
+  record(results: HandResults, now = Date.now()): void {
+    const recording = this.recording;
+    if (!recording || recording.frames.length >= MAX_RECORDING_FRAMES) return;
+    // MediaPipe reuses its result objects, so keep copies
+    recording.frames.push({
+      t: now - this.startedAt,
+      multiHandLandmarks: (results.multiHandLandmarks ?? []).map(landmarks =>
+        landmarks.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) }))
+      ),
+      multiHandedness: (results.multiHandedness ?? []).map(({ index, score, label }) => ({ index, score, label })),
+    });
+  }
+
+  /** Ends the recording and hands it back, null if none was running */
+  stop(): LandmarkRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    return recording;
+  }
+}
+
+/** A recording read back from JSON, or an error saying why it isn't one */
+export function parseLandmarkRecording(json: string): LandmarkRecording {
+  const data = JSON.parse(json);
+  if (data?.version !== 1 || !Array.isArray(data.frames)) {
+    throw new Error('Not a landmark recording');
+  }
+  return data as LandmarkRecording;
+}
+
+/** Saves a recording as a file through the browser's downloads */
+export function downloadLandmarkRecording(recording: LandmarkRecording): void {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `landmarks-${(recording.recordedAt ?? 'synthetic').replace(/[:.]/g, '-')}.json`;
+  link.click();
+  // Revoking straight away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_MS);
+}
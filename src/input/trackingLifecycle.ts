@@ -0,0 +1,109 @@
+/**
+ * Tracking lifecycle - where the camera and hand model are, from the first
+ * permission prompt to a stream that dropped out and is being reacquired
+ * useHandTracking reports what happens; this decides what state that leaves
+ * tracking in and whether a lost camera is worth another try.
+ */
+
+export type TrackingState =
+  | 'idle'
+  | 'requesting'
+  | 'loading-model'
+  | 'running'
+  | 'degraded'
+  | 'lost'
+  | 'recovering'
+  | 'failed';
+
+export interface TrackingStatus {
+  state: TrackingState;
+  // Why tracking failed or dropped out
+  error: string | null;
+  // The player said no - retrying won't help until they change browser settings
+  permissionDenied: boolean;
+  // Reacquisition attempts since tracking last ran
+  attempt: number;
+}
+
+export type TrackingEvent =
+  | { type: 'request' }
+  | { type: 'streamOpened' }
+  | { type: 'results' }
+  | { type: 'stalled'; reason: string }
+  | { type: 'lost'; reason: string }
+  | { type: 'recover' }
+  | { type: 'error'; message: string; permissionDenied?: boolean };
+
+// Give up on a lost camera after this many tries, roughly half a minute
+export const MAX_RECOVERY_ATTEMPTS = 5;
+const RECOVERY_BASE_MS = 1000;
+const RECOVERY_MAX_MS = 16000;
+// No results for this long and the model or camera has stalled
+export const STALL_MS = 2000;
+// Still nothing after this long and the stream is treated as lost, so it gets reopened
+export const STALL_LOST_MS = 6000;
+
+export const INITIAL_TRACKING_STATUS: TrackingStatus = {
+  state: 'idle',
+  error: null,
+  permissionDenied: false,
+  attempt: 0,
+};
+
+/** Wait before the next reacquisition, doubling with every failed attempt */
+export function recoveryDelay(attempt: number): number {
+  return Math.min(RECOVERY_BASE_MS * 2 ** attempt, RECOVERY_MAX_MS);
+}
+
+export function trackingReducer(status: TrackingStatus, event: TrackingEvent): TrackingStatus {
+  const { state } = status;
+  switch (event.type) {
+    case 'request':
+      return { state: 'requesting', error: null, permissionDenied: false, attempt: 0 };
+    case 'streamOpened':
+      return state === 'requesting' || state === 'recovering' ? { ...status, state: 'loading-model' } : status;
+    case 'results':
+      // Frames coming back means the whole pipeline works again
+      return state === 'loading-model' || state === 'degraded'
+        ? { ...status, state: 'running', error: null, attempt: 0 }
+        : status;
+    case 'stalled':
+      return state === 'running' ? { ...status, state: 'degraded', error: event.reason } : status;
+    case 'lost':
+      return isCameraActive(state) ? { ...status, state: 'lost', error: event.reason } : status;
+    case 'recover':
+      return state === 'lost' ? { ...status, state: 'recovering', attempt: status.attempt + 1 } : status;
+    case 'error': {
+      const permissionDenied = event.permissionDenied ?? false;
+      // A failed reacquisition waits for the next one, until it runs out of tries
+      const retry = status.attempt > 0 && status.attempt < MAX_RECOVERY_ATTEMPTS && !permissionDenied;
+      return { ...status, state: retry ? 'lost' : 'failed', error: event.message, permissionDenied };
+    }
+  }
+}
+
+/** What the stall watchdog should report, given how long since the last model result */
+export function stallEvent(state: TrackingState, sinceResultMs: number): TrackingEvent | null {
+  if (state === 'running' && sinceResultMs > STALL_MS) {
+    return { type: 'stalled', reason: 'No frames from the camera' };
+  }
+  if (state === 'degraded' && sinceResultMs > STALL_LOST_MS) {
+    return { type: 'lost', reason: 'Camera stopped sending video' };
+  }
+  return null;
+}
+
+/** Camera and model are being set up for the first time */
+export function isTrackingStarting(state: TrackingState): boolean {
+  return state === 'requesting' || state === 'loading-model';
+}
+
+/** A stream is attached that the model and the preview can read */
+export function isCameraActive(state: TrackingState): boolean {
+  return state === 'loading-model' || state === 'running' || state === 'degraded';
+}
+
+/** The camera has been set up and is wanted, even if it is down right now */
+export function isCameraInUse(state: TrackingState): boolean {
+  return isCameraActive(state) || state === 'lost' || state === 'recovering';
+}
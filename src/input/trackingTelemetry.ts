@@ -0,0 +1,108 @@
+/**
+ * TrackingTelemetry - Numbers for "the tracking feels bad on my laptop"
+ * MediaPipeSource records every model result here; the telemetry overlay reads
+ * a snapshot of the last couple of seconds a few times a second.
+ */
+
+import { BladePoint } from '@/types/game';
+
+// Long enough to smooth frame jitter, short enough to follow a change of lighting
+const WINDOW_MS = 2000;
+// Fingertip samples of the first hand kept for the spacing and the overlay's dots
+const TIP_SAMPLES = 30;
+
+export interface TelemetryHand {
+  // MediaPipe's handedness label, or the hand's index when it has none
+  label: string;
+  // How sure the model is of that label - the only confidence it reports per hand
+  score: number;
+  // Where the fingertip landed on screen
+  point: { x: number; y: number };
+}
+
+export interface TelemetryFrame {
+  timestamp: number;
+  // Frame handed to the model until its landmarks came back, null if it wasn't timed
+  inferenceMs: number | null;
+  hands: TelemetryHand[];
+  // First hand's smoothed fingertip, the sample its trail gets
+  fingertip: BladePoint | null;
+}
+
+export interface TelemetrySnapshot {
+  fps: number;
+  // Last frame, and the average over the window
+  inferenceMs: number;
+  averageInferenceMs: number;
+  hands: TelemetryHand[];
+  // Share of frames in the window where no hand was found
+  noHandFraction: number;
+  // Average gap between consecutive fingertip samples
+  sampleSpacingPx: number;
+  sampleIntervalMs: number;
+  // Model time plus, on average, half a frame waiting to be captured
+  estimatedLatencyMs: number;
+  tips: BladePoint[];
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export class TrackingTelemetry {
+  private frames: TelemetryFrame[] = [];
+  // Each sample knows which unbroken run of frames with a hand it came from
+  private tips: Array<{ tip: BladePoint; run: number }> = [];
+  private run = 0;
+
+  record(frame: TelemetryFrame): void {
+    this.frames.push(frame);
+    while (this.frames.length > 0 && frame.timestamp - this.frames[0].timestamp > WINDOW_MS) {
+      this.frames.shift();
+    }
+
+    // A gap in the hand starts a new run, so the jump across it isn't counted as spacing
+    if (!frame.fingertip) {
+      this.run++;
+      return;
+    }
+    this.tips.push({ tip: frame.fingertip, run: this.run });
+    if (this.tips.length > TIP_SAMPLES) {
+      this.tips.shift();
+    }
+  }
+
+  reset(): void {
+    this.frames = [];
+    this.tips = [];
+    this.run++;
+  }
+
+  snapshot(now: number): TelemetrySnapshot {
+    const frames = this.frames.filter(frame => now - frame.timestamp <= WINDOW_MS);
+    const last = frames[frames.length - 1];
+    const span = frames.length > 1 ? last.timestamp - frames[0].timestamp : 0;
+    const fps = span > 0 ? ((frames.length - 1) * 1000) / span : 0;
+
+    const inference = frames.flatMap(frame => (frame.inferenceMs === null ? [] : [frame.inferenceMs]));
+    const averageInferenceMs = average(inference);
+
+    const tips = this.tips.filter(({ tip }) => now - tip.timestamp <= WINDOW_MS);
+    const gaps = tips.slice(1).flatMap(({ tip, run }, i) => {
+      const { tip: prev, run: prevRun } = tips[i];
+      return run === prevRun ? [{ px: Math.hypot(tip.x - prev.x, tip.y - prev.y), ms: tip.timestamp - prev.timestamp }] : [];
+    });
+
+    return {
+      fps,
+      inferenceMs: inference[inference.length - 1] ?? 0,
+      averageInferenceMs,
+      hands: last?.hands ?? [],
+      noHandFraction: frames.length === 0 ? 1 : frames.filter(frame => frame.hands.length === 0).length / frames.length,
+      sampleSpacingPx: average(gaps.map(gap => gap.px)),
+      sampleIntervalMs: average(gaps.map(gap => gap.ms)),
+      estimatedLatencyMs: fps > 0 ? averageInferenceMs + 500 / fps : averageInferenceMs,
+      tips: tips.map(({ tip }) => tip),
+    };
+  }
+}
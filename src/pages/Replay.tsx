@@ -0,0 +1,131 @@
+import { useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Play, Pause, Home, ShieldCheck, ShieldAlert } from "lucide-react";
+import { GameCanvas } from "@/components/GameCanvas";
+import { GameHUD } from "@/components/GameHUD";
+import { Slider } from "@/components/ui/slider";
+import { Replay, verifyReplay } from "@/engine/replay";
+import { listGameModes } from "@/engine/modes";
+import { useReplayPlayback, PLAYBACK_SPEEDS } from "@/hooks/useReplayPlayback";
+import { loadReplay } from "@/utils/replayStorage";
+
+const CONTROLS_HEIGHT = 96;
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+}
+
+function ReplayViewer({ replay }: { replay: Replay }) {
+  const playback = useReplayPlayback(replay);
+  const verified = useMemo(() => verifyReplay(replay), [replay]);
+  const rules = listGameModes().find((mode) => mode.id === replay.mode);
+  const { snapshot } = playback;
+
+  // Fit the recorded play area on this screen
+  const scale = Math.min(window.innerWidth / replay.width, (window.innerHeight - CONTROLS_HEIGHT) / replay.height);
+  const lastPoint = playback.blades.map((blade) => blade.trail[blade.trail.length - 1]).find(Boolean);
+
+  return (
+    <div className="flex min-h-screen flex-col items-center bg-black">
+      <div style={{ width: replay.width * scale, height: replay.height * scale }}>
+        <div
+          className="relative overflow-hidden"
+          style={{ width: replay.width, height: replay.height, transform: `scale(${scale})`, transformOrigin: "top left" }}
+        >
+          <GameCanvas
+            width={replay.width}
+            height={replay.height}
+            fruits={snapshot.fruits}
+            bombs={snapshot.bombs}
+            specialFruits={snapshot.specialFruits}
+            slicedFruits={snapshot.slicedFruits}
+            particles={snapshot.particles}
+            scorePopups={snapshot.scorePopups}
+            blades={playback.blades}
+            fingerPosition={{ x: lastPoint?.x ?? 0, y: lastPoint?.y ?? 0, isTracking: !!lastPoint }}
+            activeEffect={snapshot.activeEffect}
+            getRenderClock={playback.getRenderClock}
+          />
+          <GameHUD
+            stats={snapshot.stats}
+            timeRemaining={snapshot.timeRemaining}
+            widgets={rules?.hud.filter((widget) => widget !== "best")}
+            maxLives={rules?.lives}
+          />
+        </div>
+      </div>
+
+      {/* Playback controls */}
+      <div className="flex w-full max-w-4xl items-center gap-4 px-4 py-4 font-game text-foreground">
+        <button
+          onClick={playback.togglePlaying}
+          aria-label={playback.isPlaying ? "Pause" : "Play"}
+          className="wood-button flex h-12 w-12 items-center justify-center"
+        >
+          {playback.isPlaying ? <Pause size={20} /> : <Play size={20} />}
+        </button>
+
+        <span className="w-24 text-sm tabular-nums">
+          {formatClock(playback.time)} / {formatClock(replay.duration)}
+        </span>
+
+        <Slider
+          value={[playback.time]}
+          max={replay.duration}
+          step={100}
+          onValueChange={([time]) => playback.seek(time)}
+          aria-label="Scrub"
+        />
+
+        <div className="flex gap-1">
+          {PLAYBACK_SPEEDS.map((speed) => (
+            <button
+              key={speed}
+              onClick={() => playback.setSpeed(speed)}
+              className={`rounded-md px-2 py-1 text-sm ${speed === playback.speed ? "bg-primary text-primary-foreground" : "bg-card text-muted-foreground"}`}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+
+        <span
+          className={`flex items-center gap-1 text-sm ${verified ? "text-green-400" : "text-destructive"}`}
+          title={verified ? "Re-simulated to the recorded score" : "Re-simulation does not match the recorded score"}
+        >
+          {verified ? <ShieldCheck size={18} /> : <ShieldAlert size={18} />}
+          {replay.stats.score}
+        </span>
+
+        <Link to="/" aria-label="Back to game" className="text-muted-foreground hover:text-foreground">
+          <Home size={22} />
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+const ReplayPage = () => {
+  const { id = "" } = useParams();
+  const replay = useMemo(() => loadReplay(id), [id]);
+  const modeKnown = replay !== null && listGameModes().some((mode) => mode.id === replay.mode);
+
+  if (!replay || !modeKnown) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <div className="text-center">
+          <h1 className="mb-4 text-4xl font-bold">Replay not found</h1>
+          <p className="mb-4 text-xl text-muted-foreground">Replays are stored in this browser only</p>
+          <Link to="/" className="text-primary underline hover:text-primary/90">
+            Return to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <ReplayViewer key={replay.id} replay={replay} />;
+};
+
+export default ReplayPage;
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { predictPoint, predictBlade } from "@/utils/bladePrediction";
+import { BladePoint } from "@/types/game";
+
+// Fingertip samples every 33ms moving at the given px/ms
+function samples(vx: number, count = 4): BladePoint[] {
+  return Array.from({ length: count }, (_, i) => ({ x: 100 + vx * i * 33, y: 200, timestamp: i * 33 }));
+}
+
+describe("blade prediction", () => {
+  it("extrapolates steady motion along its velocity", () => {
+    const trail = samples(1);
+    const predicted = predictPoint(trail, 40);
+
+    expect(predicted?.x).toBeCloseTo(trail[3].x + 40);
+    expect(predicted?.y).toBeCloseTo(200);
+    expect(predicted?.timestamp).toBe(trail[3].timestamp + 40);
+  });
+
+  it("follows acceleration", () => {
+    const trail: BladePoint[] = [
+      { x: 0, y: 0, timestamp: 0 },
+      { x: 10, y: 0, timestamp: 10 },
+      { x: 30, y: 0, timestamp: 20 },
+    ];
+
+    // Speeding up by 1 px/ms each 10ms: 30 + 2*10 + 0.5*0.1*100
+    expect(predictPoint(trail, 10)?.x).toBeCloseTo(55);
+  });
+
+  it("caps how far the tip can be thrown", () => {
+    const trail = samples(20);
+    const tip = trail[trail.length - 1];
+    const predicted = predictPoint(trail, 100)!;
+
+    expect(Math.hypot(predicted.x - tip.x, predicted.y - tip.y)).toBeCloseTo(120);
+  });
+
+  it("gives up on stale or too-short trails", () => {
+    expect(predictPoint(samples(1, 1), 40)).toBeNull();
+    expect(predictPoint(samples(1), 500)).toBeNull();
+  });
+
+  it("predicts swiping blades from now plus the lookahead and leaves idle ones alone", () => {
+    const trail = samples(1);
+    const tip = trail[trail.length - 1];
+
+    const swiping = predictBlade({ id: "hand-Left", trail, isSwiping: true }, tip.timestamp + 10, 30);
+    expect(swiping.predicted?.x).toBeCloseTo(tip.x + 40);
+    expect(swiping.trail).toBe(trail);
+
+    expect(predictBlade({ id: "hand-Left", trail, isSwiping: false }, tip.timestamp, 30).predicted).toBeUndefined();
+  });
+});
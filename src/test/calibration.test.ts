@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { applyHomography, solveHomography } from "@/utils/homography";
+import { CALIBRATION_CORNERS, createCalibration } from "@/utils/calibration";
+
+describe("play-area calibration", () => {
+  it("stretches the reached corners over the whole screen", () => {
+    const reached = [
+      { x: 0.2, y: 0.25 },
+      { x: 0.75, y: 0.2 },
+      { x: 0.8, y: 0.7 },
+      { x: 0.25, y: 0.75 },
+    ];
+    const calibration = createCalibration("Player 1", reached, 0)!;
+
+    reached.forEach((point, i) => {
+      const screen = applyHomography(calibration.homography, point)!;
+      expect(screen.x).toBeCloseTo(CALIBRATION_CORNERS[i].x);
+      expect(screen.y).toBeCloseTo(CALIBRATION_CORNERS[i].y);
+    });
+  });
+
+  it("reduces to a plain scale and offset for an upright rectangle", () => {
+    const h = solveHomography(
+      [
+        { x: 0.2, y: 0.2 },
+        { x: 0.8, y: 0.2 },
+        { x: 0.8, y: 0.8 },
+        { x: 0.2, y: 0.8 },
+      ],
+      CALIBRATION_CORNERS,
+    )!;
+
+    expect(h[6]).toBeCloseTo(0);
+    expect(h[7]).toBeCloseTo(0);
+    const centre = applyHomography(h, { x: 0.5, y: 0.5 })!;
+    expect(centre.x).toBeCloseTo(0.5);
+    expect(centre.y).toBeCloseTo(0.5);
+  });
+
+  it("rejects corners that don't span an area", () => {
+    const inALine = [0.1, 0.3, 0.5, 0.7].map((x) => ({ x, y: 0.5 }));
+    expect(createCalibration("Player 1", inALine, 0)).toBeNull();
+  });
+
+  it("rejects corners reached in a crossed, bow-tie order", () => {
+    const crossed = [
+      { x: 0.2, y: 0.2 },
+      { x: 0.8, y: 0.2 },
+      { x: 0.2, y: 0.8 },
+      { x: 0.8, y: 0.8 },
+    ];
+    expect(createCalibration("Player 1", crossed, 0)).toBeNull();
+  });
+
+  it("rejects corners that are nearly in a line, tiny, or wound the wrong way", () => {
+    const nearlyInALine = [
+      { x: 0.2, y: 0.2 },
+      { x: 0.5, y: 0.205 },
+      { x: 0.8, y: 0.2 },
+      { x: 0.5, y: 0.8 },
+    ];
+    const tiny = [
+      { x: 0.5, y: 0.5 },
+      { x: 0.55, y: 0.5 },
+      { x: 0.55, y: 0.55 },
+      { x: 0.5, y: 0.55 },
+    ];
+    const anticlockwise = [
+      { x: 0.2, y: 0.2 },
+      { x: 0.2, y: 0.8 },
+      { x: 0.8, y: 0.8 },
+      { x: 0.8, y: 0.2 },
+    ];
+    expect(createCalibration("Player 1", nearlyInALine, 0)).toBeNull();
+    expect(createCalibration("Player 1", tiny, 0)).toBeNull();
+    expect(createCalibration("Player 1", anticlockwise, 0)).toBeNull();
+  });
+
+  it("has no screen point for camera points on the map's horizon", () => {
+    // w = 1 - x, so x = 1 is on the horizon and beyond it is behind
+    const h = [1, 0, 0, 0, 1, 0, -1, 0, 1];
+    expect(applyHomography(h, { x: 0.5, y: 0.5 })).toEqual({ x: 1, y: 1 });
+    expect(applyHomography(h, { x: 1, y: 0.5 })).toBeNull();
+    expect(applyHomography(h, { x: 1.5, y: 0.5 })).toBeNull();
+  });
+});
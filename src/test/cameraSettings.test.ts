@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  DEFAULT_CAMERA_SETTINGS,
+  loadCameraSettings,
+  saveCameraSettings,
+  videoConstraints,
+} from "@/utils/cameraSettings";
+
+describe("camera settings", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("asks for the chosen device exactly and for size and rate as ideals", () => {
+    expect(videoConstraints({ deviceId: "usb-cam", width: 1280, height: 720, frameRate: 60 })).toEqual({
+      deviceId: { exact: "usb-cam" },
+      width: { ideal: 1280 },
+      height: { ideal: 720 },
+      frameRate: { ideal: 60 },
+    });
+    expect(videoConstraints(DEFAULT_CAMERA_SETTINGS)).not.toHaveProperty("deviceId");
+  });
+
+  it("remembers the choice and falls back to defaults on bad data", () => {
+    expect(loadCameraSettings()).toEqual(DEFAULT_CAMERA_SETTINGS);
+
+    saveCameraSettings({ ...DEFAULT_CAMERA_SETTINGS, deviceId: "usb-cam", frameRate: 15 });
+    expect(loadCameraSettings()).toMatchObject({ deviceId: "usb-cam", frameRate: 15, width: 640 });
+
+    localStorage.setItem("fruitNinjaCamera", "{not json");
+    expect(loadCameraSettings()).toEqual(DEFAULT_CAMERA_SETTINGS);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { dailySeed, dayKey, dateFromDayKey, recordDailyAttempt } from "@/utils/daily";
+
+describe("daily challenge", () => {
+  it("keys days by local date", () => {
+    const date = new Date(2024, 2, 9, 23, 59);
+    expect(dayKey(date)).toBe("2024-03-09");
+    expect(dayKey(dateFromDayKey("2024-03-09"))).toBe("2024-03-09");
+  });
+
+  it("derives the same seed for everyone on a day, and a new one the next day", () => {
+    expect(dailySeed("2024-03-09")).toBe(dailySeed("2024-03-09"));
+    expect(dailySeed("2024-03-09")).not.toBe(dailySeed("2024-03-10"));
+  });
+
+  it("counts attempts and keeps the best score per day", () => {
+    let history = recordDailyAttempt({}, "2024-03-09", 40);
+    history = recordDailyAttempt(history, "2024-03-09", 25);
+    history = recordDailyAttempt(history, "2024-03-10", 10);
+
+    expect(history["2024-03-09"]).toEqual({ attempts: 2, best: 40 });
+    expect(history["2024-03-10"]).toEqual({ attempts: 1, best: 10 });
+  });
+});
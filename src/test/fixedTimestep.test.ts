@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { FixedTimestep } from "@/utils/fixedTimestep";
+
+// Simulate a falling body driven by frames of the given length, recording y after every step
+function simulate(frameMs: number, totalMs: number) {
+  const timestep = new FixedTimestep();
+  let y = 0;
+  let velocityY = -15;
+  const trajectory: number[] = [];
+
+  for (let elapsed = 0; elapsed < totalMs; elapsed += frameMs) {
+    timestep.advance(frameMs, () => {
+      y += velocityY;
+      velocityY += 0.4;
+      trajectory.push(y);
+    });
+  }
+
+  return { trajectory, steps: trajectory.length };
+}
+
+describe("FixedTimestep", () => {
+  it("runs the same steps at 60 Hz and 144 Hz", () => {
+    const at60 = simulate(1000 / 60, 2000);
+    const at144 = simulate(1000 / 144, 2000);
+
+    expect(Math.abs(at60.steps - at144.steps)).toBeLessThanOrEqual(1);
+
+    // Step for step, both refresh rates put the body in exactly the same place
+    const steps = Math.min(at60.steps, at144.steps);
+    expect(steps).toBeGreaterThan(100);
+    expect(at144.trajectory.slice(0, steps)).toEqual(at60.trajectory.slice(0, steps));
+  });
+
+  it("returns the leftover fraction as the interpolation factor", () => {
+    const timestep = new FixedTimestep(10);
+    let steps = 0;
+    const alpha = timestep.advance(25, () => steps++);
+
+    expect(steps).toBe(2);
+    expect(alpha).toBeCloseTo(0.5);
+  });
+
+  it("clamps long frames to avoid a catch-up spiral", () => {
+    const timestep = new FixedTimestep(10);
+    let steps = 0;
+    timestep.advance(5000, () => steps++);
+
+    expect(steps).toBe(25);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { GameWorld } from "@/engine/GameWorld";
+import { FIXED_STEP_MS } from "@/utils/fixedTimestep";
+import { BladeCut, BladeSegment } from "@/types/game";
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+function createWorld(seed = 42) {
+  return new GameWorld({ width: WIDTH, height: HEIGHT, seed });
+}
+
+// A single swiping blade cutting along the given segments
+function blade(segments: BladeSegment[], id = "pointer"): BladeCut[] {
+  return [{ id, segments, swiping: true }];
+}
+
+function runUntil(world: GameWorld, done: () => boolean, maxSteps = 5000) {
+  for (let i = 0; i < maxSteps && !done(); i++) {
+    world.step(FIXED_STEP_MS, []);
+  }
+}
+
+describe("GameWorld", () => {
+  it("produces identical runs from the same seed", () => {
+    const a = createWorld(7);
+    const b = createWorld(7);
+    for (let i = 0; i < 600; i++) {
+      a.step(FIXED_STEP_MS, []);
+      b.step(FIXED_STEP_MS, []);
+    }
+
+    expect(a.getSnapshot()).toEqual(b.getSnapshot());
+  });
+
+  it("loses lives for missed fruit and ends the run", () => {
+    const world = createWorld();
+    const livesLeft: number[] = [];
+    let gameOver = false;
+    world.events.on("lifeLost", ({ lives }) => livesLeft.push(lives));
+    world.events.on("gameOver", () => {
+      gameOver = true;
+    });
+
+    runUntil(world, () => gameOver);
+
+    expect(gameOver).toBe(true);
+    expect(livesLeft[livesLeft.length - 1]).toBe(0);
+    expect(world.getSnapshot().status).toBe("gameover");
+  });
+
+  it("slices a fruit the blade passes through", () => {
+    const world = createWorld();
+    runUntil(world, () => world.getSnapshot().fruits.length > 0);
+
+    const [fruit] = world.getSnapshot().fruits;
+    const sliced: string[] = [];
+    world.events.on("fruitSliced", (event) => sliced.push(event.fruitType));
+
+    world.step(FIXED_STEP_MS, blade([
+      { x1: fruit.x - 100, y1: fruit.y, x2: fruit.x + 100, y2: fruit.y },
+    ]));
+
+    const snapshot = world.getSnapshot();
+    expect(sliced).toEqual([fruit.type]);
+    expect(snapshot.stats.score).toBeGreaterThan(0);
+    expect(snapshot.fruits.find((f) => f.id === fruit.id)).toBeUndefined();
+  });
+
+  it("awards an N fruit combo when one stroke cuts three or more fruit", () => {
+    const world = new GameWorld({ width: WIDTH, height: HEIGHT, seed: 42, mode: "zen" });
+    runUntil(world, () => world.getSnapshot().fruits.length > 0);
+
+    const bonuses: number[] = [];
+    world.events.on("strokeBonus", ({ fruitCount }) => bonuses.push(fruitCount));
+
+    // One long stroke that sweeps across everything on screen, step after step
+    let sliced = 0;
+    world.events.on("fruitSliced", () => sliced++);
+    const sweep = [{ x1: 0, y1: 0, x2: WIDTH, y2: HEIGHT }, { x1: WIDTH, y1: 0, x2: 0, y2: HEIGHT },
+      ...Array.from({ length: 12 }, (_, i) => ({ x1: 0, y1: (i * HEIGHT) / 12, x2: WIDTH, y2: (i * HEIGHT) / 12 }))];
+    for (let i = 0; i < 600 && sliced < 3; i++) {
+      world.step(FIXED_STEP_MS, blade(sweep));
+    }
+    expect(sliced).toBeGreaterThanOrEqual(3);
+    expect(bonuses).toEqual([]);
+
+    const scoreBefore = world.getSnapshot().stats.score;
+    world.step(FIXED_STEP_MS, []);
+
+    const snapshot = world.getSnapshot();
+    expect(bonuses).toEqual([sliced]);
+    expect(snapshot.stats.score).toBe(scoreBefore + sliced);
+    expect(snapshot.scorePopups.some((p) => p.type === "strokeBonus" && p.fruitCount === sliced)).toBe(true);
+  });
+
+  it("runs zen for 90 seconds with no bombs and no lost lives", () => {
+    const world = new GameWorld({ width: WIDTH, height: HEIGHT, seed: 42, mode: "zen" });
+    let sawBomb = false;
+
+    runUntil(world, () => {
+      const snapshot = world.getSnapshot();
+      sawBomb ||= snapshot.bombs.length > 0;
+      return snapshot.status === "gameover";
+    }, 10000);
+
+    const snapshot = world.getSnapshot();
+    expect(sawBomb).toBe(false);
+    expect(snapshot.stats.lives).toBe(3);
+    expect(snapshot.timeRemaining).toBe(0);
+    expect(snapshot.time).toBeGreaterThanOrEqual(90000);
+  });
+
+  it("charges arcade bombs points and time instead of ending the run", () => {
+    const world = new GameWorld({ width: WIDTH, height: HEIGHT, seed: 42, mode: "arcade" });
+    runUntil(world, () => world.getSnapshot().bombs.length > 0);
+
+    const before = world.getSnapshot();
+    const [bomb] = before.bombs;
+    const hits: number[] = [];
+    world.events.on("bombHit", ({ timeLost }) => hits.push(timeLost));
+
+    world.step(FIXED_STEP_MS, blade([
+      { x1: bomb.x - 100, y1: bomb.y, x2: bomb.x + 100, y2: bomb.y },
+    ]));
+
+    const after = world.getSnapshot();
+    expect(hits).toEqual([5000]);
+    expect(after.status).toBe("playing");
+    expect(after.stats.lives).toBe(3);
+    expect(after.timeRemaining).toBeLessThanOrEqual(before.timeRemaining! - 5000);
+  });
+});
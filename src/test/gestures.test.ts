@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { GestureEvent, GestureRecognizer, bestGesture, classifyHand } from "@/input/gestures";
+import { FIST, OPEN_PALM, PINCH, POINT, THUMBS_UP, hand } from "./handFixtures";
+
+describe("gesture classifier", () => {
+  it("recognizes each pose with confidence", () => {
+    expect(bestGesture(classifyHand(OPEN_PALM))?.gesture).toBe("openPalm");
+    expect(bestGesture(classifyHand(FIST))?.gesture).toBe("fist");
+    expect(bestGesture(classifyHand(POINT))?.gesture).toBe("point");
+    expect(bestGesture(classifyHand(THUMBS_UP))?.gesture).toBe("thumbsUp");
+    expect(bestGesture(classifyHand(PINCH))?.gesture).toBe("pinch");
+
+    const scores = classifyHand(FIST);
+    expect(scores.fist).toBeGreaterThan(0.9);
+    expect(scores.openPalm).toBe(0);
+  });
+
+  it("doesn't depend on how far the hand is from the camera", () => {
+    const far = hand(["extended", "curled", "curled", "curled"], "tucked", 0.5);
+    const near = classifyHand(POINT);
+    Object.entries(classifyHand(far)).forEach(([gesture, confidence]) => {
+      expect(confidence).toBeCloseTo(near[gesture as keyof typeof near]);
+    });
+  });
+});
+
+describe("GestureRecognizer", () => {
+  it("only reports a pose once it has been held, and ends it when the hand goes", () => {
+    const recognizer = new GestureRecognizer(120);
+    const log: string[] = [];
+    const record = (kind: string) => (event: GestureEvent) => log.push(`${kind} ${event.gesture} @${event.timestamp}`);
+    recognizer.events.on("gestureStart", record("start"));
+    recognizer.events.on("gestureEnd", record("end"));
+
+    [0, 50, 100, 150, 200].forEach(t => recognizer.update("hand-Left", FIST, t));
+    expect(log).toEqual(["start fist @150"]);
+    expect(recognizer.current("hand-Left")?.gesture).toBe("fist");
+
+    // A single frame of something else is ignored
+    recognizer.update("hand-Left", OPEN_PALM, 250);
+    recognizer.update("hand-Left", FIST, 300);
+    expect(log).toHaveLength(1);
+
+    [350, 400, 450, 500].forEach(t => recognizer.update("hand-Left", OPEN_PALM, t));
+    expect(log).toEqual(["start fist @150", "end fist @500", "start openPalm @500"]);
+
+    recognizer.lost("hand-Left", 550);
+    expect(log[log.length - 1]).toBe("end openPalm @550");
+    expect(recognizer.current("hand-Left")).toBeNull();
+  });
+});
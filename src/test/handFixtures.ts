@@ -0,0 +1,46 @@
+/** Synthetic MediaPipe hands in known poses, for gesture and tracking tests */
+
+import type { NormalizedLandmark } from "@mediapipe/hands";
+
+export type Pose = "extended" | "curled";
+export type Thumb = "out" | "tucked" | "up" | "pinch";
+
+const point = (x: number, y: number): NormalizedLandmark => ({ x, y, z: 0 });
+
+// An upright right hand, palm to the camera: wrist at the bottom, knuckles 0.2 above it
+export function hand(fingers: [Pose, Pose, Pose, Pose], thumb: Thumb, scale = 1): NormalizedLandmark[] {
+  const thumbTips: Record<Thumb, NormalizedLandmark> = {
+    out: point(0.28, 0.62),
+    tucked: point(0.46, 0.65),
+    up: point(0.36, 0.46),
+    pinch: point(0.375, 0.56),
+  };
+  const landmarks = [point(0.5, 0.8), point(0.44, 0.76), point(0.4, 0.7), point(0.38, 0.66), thumbTips[thumb]];
+
+  const knuckles = [point(0.44, 0.6), point(0.49, 0.6), point(0.54, 0.6), point(0.59, 0.62)];
+  knuckles.forEach((mcp, i) => {
+    if (thumb === "pinch" && i === 0) {
+      // Index bent over to meet the thumb
+      landmarks.push(mcp, point(0.42, 0.53), point(0.39, 0.52), point(0.37, 0.55));
+    } else if (fingers[i] === "extended") {
+      landmarks.push(mcp, point(mcp.x, mcp.y - 0.08), point(mcp.x, mcp.y - 0.13), point(mcp.x, mcp.y - 0.18));
+    } else {
+      landmarks.push(mcp, point(mcp.x, mcp.y - 0.05), point(mcp.x, mcp.y - 0.01), point(mcp.x, mcp.y + 0.04));
+    }
+  });
+
+  // Further from the camera, the same hand is smaller
+  const wrist = landmarks[0];
+  return landmarks.map(({ x, y }) => point(wrist.x + (x - wrist.x) * scale, wrist.y + (y - wrist.y) * scale));
+}
+
+export const OPEN_PALM = hand(["extended", "extended", "extended", "extended"], "out");
+export const FIST = hand(["curled", "curled", "curled", "curled"], "tucked");
+export const POINT = hand(["extended", "curled", "curled", "curled"], "tucked");
+export const THUMBS_UP = hand(["curled", "curled", "curled", "curled"], "up");
+export const PINCH = hand(["extended", "extended", "extended", "extended"], "pinch");
+
+/** The same hand shifted across the frame */
+export function moved(landmarks: NormalizedLandmark[], dx: number, dy = 0): NormalizedLandmark[] {
+  return landmarks.map(({ x, y, z }) => ({ x: x + dx, y: y + dy, z }));
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import type { NormalizedLandmark } from "@mediapipe/hands";
+import { FakeHandsSource } from "@/input/FakeHandsSource";
+import { InputManager } from "@/input/InputManager";
+import { MediaPipeSource } from "@/input/MediaPipeSource";
+import { LandmarkRecorder, LandmarkRecording, parseLandmarkRecording } from "@/input/landmarkRecording";
+import { bladesToCuts, segmentHitsCircle } from "@/engine/collision";
+import { useHandTracking } from "@/hooks/useHandTracking";
+import { DEFAULT_FILTER_SETTINGS } from "@/utils/oneEuroFilter";
+import { Random } from "@/utils/random";
+import { POINT, moved } from "./handFixtures";
+import { SWIPE_ACROSS, phaseFrames, recordScript } from "./scriptedRecording";
+
+// Every recording in src/test/recordings is replayed here - sessions saved from the
+// F overlay, and synthetic ones generated from the scripts in scriptedRecording
+const RECORDINGS = Object.entries(
+  import.meta.glob("./recordings/*.json", { eager: true, query: "?raw", import: "default" }) as Record<string, string>
+).map(([file, json]) => [file.replace("./recordings/", ""), parseLandmarkRecording(json)] as const);
+
+const FRAME_MS = 33;
+// Landmark noise of a webcam in ordinary light, in normalized units
+const JITTER = 0.003;
+
+interface Fruit {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/** Replays a recording through tracking, noting for every frame which fruit its blades cut */
+function replay(recording: LandmarkRecording, fruits: Fruit[] = []) {
+  const bounds = { width: recording.width, height: recording.height };
+  const source = new MediaPipeSource({ getBounds: () => bounds, filterSettings: DEFAULT_FILTER_SETTINGS });
+  const manager = new InputManager();
+  manager.add(source);
+  const hands = new FakeHandsSource(recording);
+
+  const frames: Array<{ timestamp: number; hands: number; blades: number; cut: number[] }> = [];
+  hands.onResults(results => {
+    const timestamp = hands.now();
+    source.handleResults(results, timestamp);
+    const cuts = bladesToCuts(manager.getBlades(timestamp, 0));
+    const segments = cuts.flatMap(cut => cut.segments);
+    frames.push({
+      timestamp,
+      hands: results.multiHandLandmarks.length,
+      blades: cuts.length,
+      cut: fruits.flatMap((fruit, i) =>
+        segments.some(segment => segmentHitsCircle(segment, fruit.x, fruit.y, fruit.radius)) ? [i] : []
+      ),
+    });
+  });
+  hands.playAll();
+  return { frames, samples: source.getFilterSamples() };
+}
+
+/** Average jolt from one sample to the next - how much a path jitters */
+function roughness(points: Array<{ x: number; y: number }>): number {
+  const jolts = points.slice(2).map((point, i) => {
+    const [a, b] = [points[i], points[i + 1]];
+    return Math.hypot(point.x - 2 * b.x + a.x, point.y - 2 * b.y + a.y);
+  });
+  return jolts.reduce((sum, jolt) => sum + jolt, 0) / jolts.length;
+}
+
+/** Records a pointing hand through the given offsets (null while out of view) and reads it back from JSON */
+function recordSession(offsets: Array<[number, number] | null>, seed = 1) {
+  const random = new Random(seed);
+  const recorder = new LandmarkRecorder();
+  recorder.start({ width: 1000, height: 1000 }, 0);
+  offsets.forEach((offset, frame) => {
+    const landmarks: NormalizedLandmark[][] = offset
+      ? [moved(POINT, offset[0] + random.range(-JITTER, JITTER), offset[1] + random.range(-JITTER, JITTER))]
+      : [];
+    recorder.record(
+      { multiHandLandmarks: landmarks, multiHandedness: offset ? [{ index: 0, score: 0.97, label: "Left" }] : [] },
+      frame * FRAME_MS
+    );
+  });
+  const recording = recorder.stop();
+  if (!recording) throw new Error("Nothing recorded");
+  return parseLandmarkRecording(JSON.stringify(recording));
+}
+
+const sweep = (from: number, to: number, frames: number): Array<[number, number]> =>
+  Array.from({ length: frames }, (_, i) => [from + ((to - from) * i) / (frames - 1), 0]);
+
+// The fingertip of POINT sits at (0.44, 0.42); mirrored onto a 1000px screen that is (560, 420)
+const FRUIT = { x: 560, y: 420, radius: 40 };
+
+describe.each(RECORDINGS)("recorded session %s", (_, recording) => {
+  it("replays every frame in order", () => {
+    const { frames } = replay(recording);
+    expect(frames).toHaveLength(recording.frames.length);
+    frames.slice(1).forEach((frame, i) => expect(frame.timestamp).toBeGreaterThanOrEqual(frames[i].timestamp));
+  });
+
+  it("drops every blade on frames without a hand", () => {
+    const { frames } = replay(recording);
+    frames.filter(frame => frame.hands === 0).forEach(frame => expect(frame.blades).toBe(0));
+  });
+
+  it("smooths the landmark jitter out of the path the blade follows", () => {
+    const { samples } = replay(recording);
+    expect(roughness(samples.map(sample => sample.filtered))).toBeLessThan(roughness(samples.map(sample => sample.raw)));
+  });
+});
+
+describe("synthetic swipe-across recording", () => {
+  const recording = RECORDINGS.find(([file]) => file === "synthetic-swipe-across.json")![1];
+  const [swipeStart, swipeEnd] = phaseFrames(SWIPE_ACROSS, "swipe");
+  const resting = ["rest", "rest again"].map(name => phaseFrames(SWIPE_ACROSS, name));
+  // Where the model saw the fingertip on a frame, mirrored onto the screen
+  const tipAt = (frame: number): Fruit => {
+    const tip = recording.frames[frame].multiHandLandmarks[0][8];
+    return { x: (1 - tip.x) * recording.width, y: tip.y * recording.height, radius: 40 };
+  };
+
+  it("is what its script generates", async () => {
+    // Regenerate after changing the script with: npx vitest run -u src/test/handReplay.test.ts
+    await expect(JSON.stringify(recordScript(SWIPE_ACROSS))).toMatchFileSnapshot("./recordings/synthetic-swipe-across.json");
+  });
+
+  it("slices a fruit in the way of the swipe", () => {
+    const { frames } = replay(recording, [tipAt(Math.floor((swipeStart + swipeEnd) / 2))]);
+    const cutting = frames.flatMap((frame, i) => (frame.cut.length > 0 ? [i] : []));
+    expect(cutting.length).toBeGreaterThan(0);
+    cutting.forEach(frame => expect(frame).toBeGreaterThanOrEqual(swipeStart));
+  });
+
+  it("never cuts the fruit under a resting hand", () => {
+    const { frames } = replay(recording, resting.map(([start, end]) => tipAt(Math.floor((start + end) / 2))));
+    resting.forEach(([start, end]) => {
+      frames.slice(start, end).forEach(frame => expect(frame.cut).toEqual([]));
+    });
+  });
+});
+
+describe("useHandTracking on a replay", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("tracks the recorded hand in place of the camera", async () => {
+    vi.useFakeTimers();
+    const recording = RECORDINGS.find(([file]) => file === "synthetic-swipe-across.json")![1];
+    const { result, unmount } = renderHook(() =>
+      useHandTracking(recording.width, recording.height, new FakeHandsSource(recording))
+    );
+
+    await act(() => result.current.requestCamera());
+    // Half a second in, the hand is resting in view
+    await act(() => vi.advanceTimersByTimeAsync(500));
+    expect(result.current.tracking.state).toBe("running");
+    expect(result.current.handDetected).toBe(true);
+    expect(result.current.getRawFingertip()).not.toBeNull();
+
+    // By the end of the recording the hand has left
+    await act(() => vi.advanceTimersByTimeAsync(recording.frames.at(-1)!.t));
+    expect(result.current.handDetected).toBe(false);
+    unmount();
+  });
+});
+
+describe("scripted hand sessions", () => {
+  it("never cuts with a hand resting on the fruit", () => {
+    const resting = Array.from({ length: 60 }, (): [number, number] => [0, 0]);
+    expect(replay(recordSession(resting), [FRUIT]).frames.filter(frame => frame.cut.length > 0)).toEqual([]);
+  });
+
+  it("doesn't cut across the frames where the hand went missing", () => {
+    // In view up to one side of the fruit, lost over it, back on the far side
+    const offsets: Array<[number, number] | null> = [
+      ...sweep(-0.3, -0.1, 8),
+      null,
+      null,
+      null,
+      ...sweep(0.1, 0.3, 8),
+    ];
+    expect(replay(recordSession(offsets), [FRUIT]).frames.filter(frame => frame.cut.length > 0)).toEqual([]);
+  });
+
+  it("stamps each frame with its recorded time", () => {
+    const hands = new FakeHandsSource(recordSession(sweep(0, 0.1, 5)), 1000);
+    const times: number[] = [];
+    hands.onResults(() => times.push(hands.now()));
+    hands.playUntil(1000 + 2 * FRAME_MS);
+    expect(times).toEqual([1000, 1033, 1066]);
+    hands.playAll();
+    expect(hands.done).toBe(true);
+    expect(times).toHaveLength(5);
+  });
+});
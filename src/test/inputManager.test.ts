@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { EventBus } from "@/engine/EventBus";
+import { InputKind, InputSource, InputSourceEvents } from "@/input/InputSource";
+import { Cursor, InputManager, loadInputPriority, saveInputPriority } from "@/input/InputManager";
+
+class FakeSource implements InputSource {
+  readonly events = new EventBus<InputSourceEvents>();
+  constructor(readonly kind: InputKind, readonly predicted = false) {}
+  start(): void {}
+  stop(): void {}
+
+  move(blade: string, x: number, timestamp: number, cutting = true, primary = true): void {
+    this.events.emit("sample", { blade, point: { x, y: 100, timestamp }, cutting, primary });
+  }
+
+  release(blade: string): void {
+    this.events.emit("release", { blade });
+  }
+}
+
+function setup(priority: InputKind[] = ["hand", "pointer", "gamepad"]) {
+  const manager = new InputManager(priority);
+  const hand = new FakeSource("hand", true);
+  const pointer = new FakeSource("pointer");
+  manager.add(pointer);
+  manager.add(hand);
+  const cursors: Cursor[] = [];
+  manager.events.on("cursor", cursor => cursors.push(cursor));
+  return { manager, hand, pointer, cursors };
+}
+
+describe("InputManager", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("merges every source's blades in priority order, skipping hovers", () => {
+    const { manager, hand, pointer } = setup();
+    pointer.move("pointer", 10, 0);
+    pointer.move("pointer", 60, 16);
+    hand.move("hand-Left", 200, 0);
+    hand.move("hand-Left", 260, 16);
+    hand.move("hand-Right", 400, 16, false);
+
+    const blades = manager.getBlades(16, 0);
+    expect(blades.map(blade => blade.id)).toEqual(["hand-Left", "pointer"]);
+    expect(blades.every(blade => blade.isSwiping)).toBe(true);
+    expect(blades[1].trail.map(point => point.x)).toEqual([10, 60]);
+
+    pointer.release("pointer");
+    expect(manager.getBlades(16, 0).map(blade => blade.id)).toEqual(["hand-Left"]);
+  });
+
+  it("only predicts blades from camera sources", () => {
+    const { manager, hand, pointer } = setup();
+    [0, 16, 32].forEach((t, i) => {
+      hand.move("hand-Left", 100 + i * 40, t);
+      pointer.move("pointer", 100 + i * 40, t);
+    });
+
+    const [handBlade, pointerBlade] = manager.getBlades(32, 40);
+    expect(handBlade.predicted?.x).toBeGreaterThan(180);
+    expect(pointerBlade.predicted).toBeUndefined();
+  });
+
+  it("gives the cursor to the highest-priority source in use", () => {
+    const { manager, hand, pointer, cursors } = setup();
+    hand.move("hand-Left", 200, 0);
+    pointer.move("pointer", 10, 100);
+    expect(cursors.map(cursor => cursor.kind)).toEqual(["hand"]);
+
+    // A quiet hand hands the cursor over after a moment, a lost one straight away
+    pointer.move("pointer", 20, 600);
+    expect(cursors[cursors.length - 1]).toMatchObject({ kind: "pointer", x: 20 });
+
+    hand.move("hand-Left", 210, 700);
+    hand.release("hand-Left");
+    pointer.move("pointer", 30, 710);
+    expect(cursors.map(cursor => cursor.kind)).toEqual(["hand", "pointer", "hand", "hand", "pointer"]);
+    expect(cursors[3].isSwiping).toBe(false);
+
+    manager.setPriority(["pointer", "hand", "gamepad"]);
+    pointer.move("pointer", 40, 720);
+    hand.move("hand-Left", 220, 730);
+    expect(cursors[cursors.length - 1].kind).toBe("pointer");
+  });
+
+  it("remembers the priority order and ignores incomplete ones", () => {
+    expect(loadInputPriority()).toEqual(["hand", "pointer", "gamepad"]);
+    saveInputPriority(["gamepad", "pointer", "hand"]);
+    expect(loadInputPriority()).toEqual(["gamepad", "pointer", "hand"]);
+    saveInputPriority(["pointer", "pointer", "hand"]);
+    expect(loadInputPriority()).toEqual(["hand", "pointer", "gamepad"]);
+  });
+});
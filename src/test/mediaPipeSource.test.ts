@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import type { NormalizedLandmark } from "@mediapipe/hands";
+import { InputManager } from "@/input/InputManager";
+import { BladeArming, MediaPipeSource } from "@/input/MediaPipeSource";
+import { DEFAULT_FILTER_SETTINGS } from "@/utils/oneEuroFilter";
+import { OPEN_PALM, POINT, moved } from "./handFixtures";
+
+function setup(arming: BladeArming) {
+  const source = new MediaPipeSource({
+    getBounds: () => ({ width: 1000, height: 1000 }),
+    filterSettings: DEFAULT_FILTER_SETTINGS,
+    arming,
+  });
+  const manager = new InputManager();
+  manager.add(source);
+
+  let t = 0;
+  // A fast sideways sweep, 30 frames a second
+  const sweep = (pose: NormalizedLandmark[], frames: number) => {
+    for (let i = 0; i < frames; i++) {
+      t += 33;
+      source.handleResults(
+        { multiHandLandmarks: [moved(pose, (t % 660) / 2000)], multiHandedness: [{ index: 0, score: 1, label: "Left" }] },
+        t
+      );
+    }
+  };
+  const blades = () => manager.getBlades(t, 0);
+  return { source, sweep, blades };
+}
+
+describe("MediaPipeSource blade arming", () => {
+  it("cuts with any pose when always armed", () => {
+    const { sweep, blades } = setup("always");
+    sweep(OPEN_PALM, 6);
+    expect(blades().map(blade => blade.id)).toEqual(["hand-Left"]);
+  });
+
+  it("only cuts while pointing in point mode", () => {
+    const { sweep, blades } = setup("point");
+    sweep(OPEN_PALM, 6);
+    expect(blades()).toEqual([]);
+
+    sweep(POINT, 6);
+    expect(blades()).toHaveLength(1);
+    expect(blades()[0].isSwiping).toBe(true);
+
+    // Opening the hand ends the stroke rather than leaving the trail to cut on
+    sweep(OPEN_PALM, 1);
+    expect(blades()).toEqual([]);
+  });
+
+  it("releases every hand when the rule changes", () => {
+    const { source, sweep, blades } = setup("always");
+    sweep(OPEN_PALM, 6);
+    source.setArming("pinch");
+    expect(blades()).toEqual([]);
+    sweep(OPEN_PALM, 3);
+    expect(blades()).toEqual([]);
+  });
+});
+
+describe("MediaPipeSource play area", () => {
+  it("drops the blade while the fingertip is past the play area's horizon", () => {
+    const { source } = setup("always");
+    const manager = new InputManager();
+    manager.add(source);
+    // w = 1 - x / 0.7: camera points right of x = 0.7 have no place on screen
+    source.setPlayArea([1, 0, 0, 0, 1, 0, -1 / 0.7, 0, 1]);
+    const frame = (dx: number, t: number) => {
+      source.handleResults(
+        { multiHandLandmarks: [moved(POINT, dx)], multiHandedness: [{ index: 0, score: 1, label: "Left" }] },
+        t
+      );
+      return manager.getBlades(t, 0);
+    };
+
+    // The fingertip sits at camera x 0.56, then reaches past the horizon
+    frame(0, 0);
+    expect(frame(0.01, 33)[0].trail).toHaveLength(2);
+    expect(frame(-0.2, 66)).toEqual([]);
+    // Calibration still sees where it is
+    expect(source.getRawFingertip()?.x).toBeCloseTo(0.76);
+
+    // Back in view it starts a new stroke instead of cutting across from where it was
+    expect(frame(0, 99)[0].trail).toHaveLength(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { GameWorld } from "@/engine/GameWorld";
+import { CLASSIC_MODE, getGameMode, listGameModes, registerGameMode } from "@/engine/modes";
+import { FIXED_STEP_MS } from "@/utils/fixedTimestep";
+
+describe("game mode registry", () => {
+  it("lists the built-in modes in menu order", () => {
+    expect(listGameModes().map((mode) => mode.id)).toEqual(["classic", "zen", "arcade", "daily", "versus"]);
+  });
+
+  it("rejects unknown and duplicate modes", () => {
+    expect(() => getGameMode("nope")).toThrow(/Unknown game mode/);
+    expect(() => registerGameMode(CLASSIC_MODE)).toThrow(/already registered/);
+  });
+
+  it("runs a newly registered mode without engine changes", () => {
+    registerGameMode({
+      ...CLASSIC_MODE,
+      id: "sudden-death",
+      name: "SUDDEN DEATH",
+      tagline: "1 life",
+      highScoreKey: "fruitNinjaHighScore:sudden-death",
+      lives: 1,
+      allowed: { bombs: false, powerUps: [] },
+    });
+
+    const world = new GameWorld({ width: 800, height: 600, seed: 42, mode: "sudden-death" });
+    const livesLost: number[] = [];
+    world.events.on("lifeLost", ({ lives }) => livesLost.push(lives));
+
+    for (let i = 0; i < 5000 && world.getSnapshot().status === "playing"; i++) {
+      world.step(FIXED_STEP_MS, []);
+    }
+
+    expect(world.getSnapshot().status).toBe("gameover");
+    expect(livesLost).toEqual([0]);
+    expect(listGameModes().map((mode) => mode.id)).toContain("sudden-death");
+  });
+});
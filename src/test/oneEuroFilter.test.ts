@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { OneEuroFilter, DEFAULT_FILTER_SETTINGS } from "@/utils/oneEuroFilter";
+import { Random } from "@/utils/random";
+
+const FRAME_MS = 33;
+
+function spread(values: number[]): number {
+  return Math.max(...values) - Math.min(...values);
+}
+
+describe("OneEuroFilter", () => {
+  it("passes the first sample through", () => {
+    expect(new OneEuroFilter().filter(120, 0)).toBe(120);
+  });
+
+  it("suppresses jitter on a still fingertip", () => {
+    const filter = new OneEuroFilter();
+    const random = new Random(3);
+    const raw: number[] = [];
+    const filtered: number[] = [];
+    for (let i = 0; i < 120; i++) {
+      const value = 300 + random.range(-4, 4);
+      raw.push(value);
+      filtered.push(filter.filter(value, i * FRAME_MS));
+    }
+
+    expect(spread(filtered.slice(30))).toBeLessThan(spread(raw.slice(30)) / 2);
+  });
+
+  it("lags less on a fast swipe as beta rises", () => {
+    const lagAfterSwipe = (beta: number) => {
+      const filter = new OneEuroFilter({ ...DEFAULT_FILTER_SETTINGS, beta });
+      let value = 0;
+      for (let i = 0; i <= 10; i++) {
+        value = filter.filter(i * 60, i * FRAME_MS);
+      }
+      return 600 - value;
+    };
+
+    expect(lagAfterSwipe(0.05)).toBeLessThan(lagAfterSwipe(0));
+    expect(lagAfterSwipe(0.05)).toBeLessThan(60);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { Random, parseSeed } from "@/utils/random";
+
+describe("Random", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = new Random(1234);
+    const b = new Random(1234);
+    const seqA = Array.from({ length: 20 }, () => a.next());
+    const seqB = Array.from({ length: 20 }, () => b.next());
+
+    expect(seqA).toEqual(seqB);
+    expect(seqA.every((n) => n >= 0 && n < 1)).toBe(true);
+  });
+
+  it("diverges for different seeds", () => {
+    expect(new Random(1).next()).not.toBe(new Random(2).next());
+  });
+});
+
+describe("parseSeed", () => {
+  it("uses numbers as-is and hashes words", () => {
+    expect(parseSeed("42")).toBe(42);
+    expect(parseSeed(" friday ")).toBe(parseSeed("friday"));
+    expect(parseSeed("friday")).not.toBe(parseSeed("monday"));
+    expect(parseSeed("")).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { GameWorld } from "@/engine/GameWorld";
+import { PlayAreaMapper, ReplayRecorder, ReplayPlayback, fitPlayArea, verifyReplay } from "@/engine/replay";
+import { bladesToCuts } from "@/engine/collision";
+import { FixedTimestep, FIXED_STEP_MS } from "@/utils/fixedTimestep";
+import { Random } from "@/utils/random";
+import { predictBlade } from "@/utils/bladePrediction";
+import { Blade } from "@/types/game";
+import { useGameEngine } from "@/hooks/useGameEngine";
+
+// Play a run the way the live loop does: uneven frames, two predicted hands whose
+// trails grow, get trimmed and cleared, and swipes aimed at whatever fruit is on screen
+function recordRun(seed: number, frames: number) {
+  const world = new GameWorld({ width: 800, height: 600, seed, mode: "arcade" });
+  const recorder = new ReplayRecorder(world);
+  const timestep = new FixedTimestep();
+  const input = new Random(seed + 1);
+  const hands: Blade[] = [
+    { id: "hand-Left", trail: [], isSwiping: false },
+    { id: "hand-Right", trail: [], isSwiping: false },
+  ];
+
+  for (let frame = 0; frame < frames && world.getSnapshot().status === "playing"; frame++) {
+    const fruits = world.getSnapshot().fruits;
+    hands.forEach((hand, i) => {
+      const target = i === 0 ? fruits[0] : fruits[fruits.length - 1];
+      if (input.next() < 0.6) {
+        hand.trail.push({
+          x: target ? target.x + input.range(-60, 60) : input.range(0, 800),
+          y: target ? target.y + input.range(-60, 60) : input.range(0, 600),
+          timestamp: frame * 16,
+        });
+        if (hand.trail.length > 20) hand.trail.shift();
+      }
+      if (input.next() < 0.01) hand.trail = [];
+      if (input.next() < 0.1) hand.isSwiping = !hand.isSwiping;
+    });
+
+    // The second hand drops out of view now and then
+    const inView = input.next() < 0.2 ? hands.slice(0, 1) : hands;
+    const blades = inView.map((hand) => predictBlade(hand, frame * 16, 40));
+    recorder.capture(blades);
+    const cuts = bladesToCuts(blades);
+    timestep.advance(input.range(5, 35), () => world.step(FIXED_STEP_MS, cuts));
+  }
+
+  return { world, replay: recorder.finish("test", 0) };
+}
+
+describe("replays", () => {
+  it("reproduces the recorded run step for step", () => {
+    const { world, replay } = recordRun(11, 2000);
+    expect(replay.stats.fruitsSliced).toBeGreaterThan(0);
+
+    const playback = new ReplayPlayback(replay);
+    playback.seek(replay.duration);
+
+    const live = world.getSnapshot();
+    const replayed = playback.getSnapshot();
+    expect(replayed.time).toBe(live.time);
+    expect(replayed.stats.score).toBe(live.stats.score);
+    expect(replayed.fruits).toEqual(live.fruits);
+    expect(verifyReplay(replay)).toBe(true);
+  });
+
+  it("scrubs backwards by re-simulating from the start", () => {
+    const { replay } = recordRun(5, 1200);
+    const playback = new ReplayPlayback(replay);
+
+    playback.seek(replay.duration);
+    const atEnd = playback.getSnapshot();
+    playback.seek(1000);
+    expect(playback.time).toBeLessThan(1000 + FIXED_STEP_MS);
+    playback.seek(replay.duration);
+
+    expect(playback.getSnapshot().stats).toEqual(atEnd.stats);
+  });
+
+  it("flags a replay whose recorded score was tampered with", () => {
+    const { replay } = recordRun(3, 1200);
+    expect(verifyReplay({ ...replay, stats: { ...replay.stats, score: replay.stats.score + 100 } })).toBe(false);
+  });
+});
+
+describe("ghost races", () => {
+  it("fits a race recorded at another size on the screen and cuts where the fruit is drawn", () => {
+    const { replay } = recordRun(7, 300);
+    // Wider and shorter than the 800x600 recording
+    const { result } = renderHook(() => useGameEngine(1000, 500));
+    act(() => result.current.startGame({ ghost: replay }));
+
+    expect(result.current.playArea).toEqual({ width: 800, height: 600 });
+    const fit = result.current.playAreaFit;
+    expect(fit.scale).toBeCloseTo(500 / 600);
+    expect(fit.y).toBe(0);
+    expect(fit.x).toBeCloseTo((1000 - 800 * fit.scale) / 2);
+
+    for (let step = 0; step < 1000 && result.current.fruits.length === 0; step++) {
+      act(() => result.current.advance(FIXED_STEP_MS, []));
+    }
+    const fruit = result.current.fruits[0];
+    expect(fruit).toBeDefined();
+
+    // A swipe across the fruit as it is drawn on this screen
+    const [x, y] = [fit.x + fruit.x * fit.scale, fit.y + fruit.y * fit.scale];
+    const blade: Blade = {
+      id: "pointer",
+      trail: [-120, 0, 120].map((dx, i) => ({ x: x + dx, y, timestamp: i * 16 })),
+      isSwiping: true,
+    };
+    act(() => result.current.advance(FIXED_STEP_MS, [blade]));
+    expect(result.current.stats.fruitsSliced).toBe(1);
+  });
+
+  it("keeps mapped points stable so the recorder sees only new ones", () => {
+    const mapper = new PlayAreaMapper(fitPlayArea({ width: 800, height: 600 }, { width: 400, height: 400 }));
+    const blade: Blade = { id: "pointer", trail: [{ x: 200, y: 200, timestamp: 0 }], isSwiping: true };
+    const [first] = mapper.map([blade]);
+    expect(first.trail[0]).toEqual({ x: 400, y: 300, timestamp: 0 });
+    expect(mapper.map([blade])[0].trail[0]).toBe(first.trail[0]);
+  });
+});
@@ -0,0 +1,93 @@
+/** Scripted hand sessions, recorded through LandmarkRecorder the way a real one is */
+
+import type { NormalizedLandmark } from "@mediapipe/hands";
+import { LandmarkRecorder, LandmarkRecording } from "@/input/landmarkRecording";
+import { Random } from "@/utils/random";
+import { POINT, moved } from "./handFixtures";
+
+// One stretch of a script: the hand held at an offset from POINT, or out of view when null
+export interface ScriptPhase {
+  name: string;
+  frames: number;
+  at: [number, number] | null;
+  // Move there over the phase instead of jumping
+  glide?: boolean;
+}
+
+export interface HandScript {
+  seed: number;
+  width: number;
+  height: number;
+  note: string;
+  phases: ScriptPhase[];
+}
+
+// Landmark noise while resting and while moving fast, in normalized units
+const REST_JITTER = 0.0015;
+const SWIPE_JITTER = 0.004;
+
+export const SWIPE_ACROSS: HandScript = {
+  seed: 20261019,
+  width: 1280,
+  height: 720,
+  note: "A pointing hand rests, swipes up and across, loses tracking for three frames, rests again, then leaves",
+  phases: [
+    { name: "empty", frames: 5, at: null },
+    { name: "rest", frames: 30, at: [0.15, 0.1] },
+    { name: "swipe", frames: 18, at: [-0.3, -0.15], glide: true },
+    { name: "dropout", frames: 3, at: null },
+    { name: "rest again", frames: 24, at: [-0.3, -0.15] },
+    { name: "gone", frames: 20, at: null },
+  ],
+};
+
+/** First frame of a phase and the one after its last */
+export function phaseFrames(script: HandScript, name: string): [number, number] {
+  let start = 0;
+  for (const phase of script.phases) {
+    if (phase.name === name) return [start, start + phase.frames];
+    start += phase.frames;
+  }
+  throw new Error(`No phase named ${name}`);
+}
+
+const smoothstep = (k: number) => k * k * (3 - 2 * k);
+
+/** Plays a script at an uneven 30 fps with jittering landmarks, as the camera would */
+export function recordScript(script: HandScript): LandmarkRecording {
+  const random = new Random(script.seed);
+  const recorder = new LandmarkRecorder();
+  recorder.start({ width: script.width, height: script.height }, 0);
+
+  let t = 0;
+  let offset: [number, number] = [0, 0];
+  script.phases.forEach(({ frames, at, glide }) => {
+    const from = offset;
+    for (let frame = 0; frame < frames; frame++) {
+      if (at) {
+        const k = glide ? smoothstep((frame + 1) / frames) : 1;
+        offset = [from[0] + (at[0] - from[0]) * k, from[1] + (at[1] - from[1]) * k];
+      }
+      const jitter = glide ? SWIPE_JITTER : REST_JITTER;
+      const landmarks: NormalizedLandmark[][] = at
+        ? [moved(POINT, ...offset).map(({ x, y, z }) => ({
+            x: x + random.range(-jitter, jitter),
+            y: y + random.range(-jitter, jitter),
+            z,
+          }))]
+        : [];
+      recorder.record(
+        {
+          multiHandLandmarks: landmarks,
+          multiHandedness: at ? [{ index: 0, score: random.range(0.9, 0.99), label: "Left" }] : [],
+        },
+        t
+      );
+      t += Math.round(random.range(30, 37));
+    }
+  });
+
+  // Never recorded, so it has no time of its own
+  const { recordedAt: _, version, ...recording } = recorder.stop()!;
+  return { version, synthetic: true, note: script.note, ...recording };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  INITIAL_TRACKING_STATUS,
+  MAX_RECOVERY_ATTEMPTS,
+  STALL_LOST_MS,
+  STALL_MS,
+  TrackingEvent,
+  TrackingStatus,
+  recoveryDelay,
+  stallEvent,
+  trackingReducer,
+} from "@/input/trackingLifecycle";
+
+const run = (events: TrackingEvent[], status = INITIAL_TRACKING_STATUS) => events.reduce(trackingReducer, status);
+
+const RUNNING = run([{ type: "request" }, { type: "streamOpened" }, { type: "results" }]);
+
+describe("tracking lifecycle", () => {
+  it("goes from the permission prompt to running, and dips while frames stall", () => {
+    expect(run([{ type: "request" }]).state).toBe("requesting");
+    expect(run([{ type: "request" }, { type: "streamOpened" }]).state).toBe("loading-model");
+    expect(RUNNING.state).toBe("running");
+
+    const stalled = run([{ type: "stalled", reason: "No frames" }], RUNNING);
+    expect(stalled).toMatchObject({ state: "degraded", error: "No frames" });
+    expect(run([{ type: "results" }], stalled)).toMatchObject({ state: "running", error: null });
+  });
+
+  it("hands a stall that never clears up to recovery", () => {
+    // The watchdog ticks every half stall with no results coming back
+    let status: TrackingStatus = RUNNING;
+    const states: string[] = [];
+    for (let since = 0; since <= STALL_LOST_MS + STALL_MS; since += STALL_MS / 2) {
+      const event = stallEvent(status.state, since);
+      if (event) status = trackingReducer(status, event);
+      states.push(status.state);
+    }
+    expect(states).toContain("degraded");
+    expect(status).toMatchObject({ state: "lost", error: "Camera stopped sending video" });
+    expect(trackingReducer(status, { type: "recover" }).state).toBe("recovering");
+  });
+
+  it("leaves a stall that clears up alone", () => {
+    expect(stallEvent("running", STALL_MS / 2)).toBeNull();
+    expect(stallEvent("degraded", STALL_LOST_MS / 2)).toBeNull();
+    expect(stallEvent("lost", STALL_LOST_MS * 2)).toBeNull();
+  });
+
+  it("keeps reacquiring a lost camera until it runs out of tries", () => {
+    let status = run([{ type: "lost", reason: "Camera unplugged" }], RUNNING);
+    expect(status).toMatchObject({ state: "lost", attempt: 0 });
+
+    for (let attempt = 1; attempt < MAX_RECOVERY_ATTEMPTS; attempt++) {
+      status = run([{ type: "recover" }, { type: "error", message: "NotFoundError" }], status);
+      expect(status).toMatchObject({ state: "lost", attempt });
+    }
+    status = run([{ type: "recover" }, { type: "error", message: "NotFoundError" }], status);
+    expect(status).toMatchObject({ state: "failed", error: "NotFoundError" });
+  });
+
+  it("starts over once a reacquired camera runs again", () => {
+    const recovered = run(
+      [{ type: "lost", reason: "Track ended" }, { type: "recover" }, { type: "streamOpened" }, { type: "results" }],
+      RUNNING
+    );
+    expect(recovered).toMatchObject({ state: "running", attempt: 0, error: null });
+  });
+
+  it("never retries a refused permission", () => {
+    const status = run(
+      [{ type: "lost", reason: "Track ended" }, { type: "recover" }, { type: "error", message: "Denied", permissionDenied: true }],
+      RUNNING
+    );
+    expect(status).toMatchObject({ state: "failed", permissionDenied: true });
+  });
+
+  it("backs off exponentially up to a cap", () => {
+    expect([0, 1, 2, 3, 4, 10].map(recoveryDelay)).toEqual([1000, 2000, 4000, 8000, 16000, 16000]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { TrackingTelemetry } from "@/input/trackingTelemetry";
+
+const LEFT = { label: "Left", score: 0.9, point: { x: 0, y: 0 } };
+
+describe("TrackingTelemetry", () => {
+  it("summarises the last couple of seconds of model results", () => {
+    const telemetry = new TrackingTelemetry();
+    // 30 fps with a 20 ms model, the hand gone one frame in four, fingertip moving 10 px a frame
+    for (let frame = 0; frame <= 60; frame++) {
+      const timestamp = frame * (1000 / 30);
+      const visible = frame % 4 !== 3;
+      telemetry.record({
+        timestamp,
+        inferenceMs: 20,
+        hands: visible ? [LEFT] : [],
+        fingertip: visible ? { x: frame * 10, y: 0, timestamp } : null,
+      });
+    }
+
+    const snapshot = telemetry.snapshot(2000);
+    expect(snapshot.fps).toBeCloseTo(30);
+    expect(snapshot.averageInferenceMs).toBe(20);
+    expect(snapshot.noHandFraction).toBeCloseTo(0.25, 1);
+    expect(snapshot.hands).toEqual([LEFT]);
+    // A missing frame starts a new run, so its gap isn't counted
+    expect(snapshot.sampleSpacingPx).toBeCloseTo(10);
+    expect(snapshot.sampleIntervalMs).toBeCloseTo(1000 / 30);
+    expect(snapshot.estimatedLatencyMs).toBeCloseTo(20 + 1000 / 60);
+  });
+
+  it("reads as no hand and no frames once results stop", () => {
+    const telemetry = new TrackingTelemetry();
+    telemetry.record({ timestamp: 0, inferenceMs: 20, hands: [LEFT], fingertip: { x: 0, y: 0, timestamp: 0 } });
+    const snapshot = telemetry.snapshot(5000);
+    expect(snapshot.fps).toBe(0);
+    expect(snapshot.noHandFraction).toBe(1);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useHandTracking } from "@/hooks/useHandTracking";
+
+const cameras: FakeCamera[] = [];
+
+class FakeHands {
+  setOptions() {}
+  onResults() {}
+  async send() {}
+  async close() {}
+}
+
+class FakeCamera {
+  stopped = false;
+  constructor() {
+    cameras.push(this);
+  }
+  async start() {}
+  stop() {
+    this.stopped = true;
+  }
+}
+
+vi.mock("@/utils/mediapipeAssets", () => ({
+  loadMediaPipe: async () => ({ Hands: FakeHands, Camera: FakeCamera }),
+  locateHandsFile: (file: string) => file,
+}));
+
+function fakeStream() {
+  const track = { stop: vi.fn(), addEventListener: vi.fn(), getSettings: () => ({}), muted: false };
+  return { track, stream: { getVideoTracks: () => [track], getTracks: () => [track] } as unknown as MediaStream };
+}
+
+describe("useHandTracking attempts", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue(undefined);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    cameras.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("closes the camera of an attempt that timed out instead of taking over the newer one", async () => {
+    const late = fakeStream();
+    const current = fakeStream();
+    let openLate: (stream: MediaStream) => void = () => {};
+    const getUserMedia = vi.fn()
+      .mockReturnValueOnce(new Promise<MediaStream>(resolve => (openLate = resolve)))
+      .mockResolvedValueOnce(current.stream);
+    Object.defineProperty(navigator, "mediaDevices", { configurable: true, value: { getUserMedia } });
+
+    const { result, unmount } = renderHook(() => useHandTracking(800, 600));
+
+    // The permission prompt hangs past the timeout
+    await act(async () => {
+      const requested = result.current.requestCamera();
+      await vi.advanceTimersByTimeAsync(15000);
+      await requested;
+    });
+    expect(result.current.tracking).toMatchObject({ state: "failed", error: "Camera initialization timed out. Please try again." });
+    expect(vi.getTimerCount()).toBe(0);
+
+    await act(() => result.current.requestCamera());
+    expect(result.current.streamRef.current).toBe(current.stream);
+
+    // The first camera finally opens, long after it was given up on
+    await act(async () => {
+      openLate(late.stream);
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(late.track.stop).toHaveBeenCalled();
+    expect(result.current.streamRef.current).toBe(current.stream);
+    expect(current.track.stop).not.toHaveBeenCalled();
+    expect(cameras).toHaveLength(1);
+
+    unmount();
+    expect(current.track.stop).toHaveBeenCalled();
+    expect(cameras[0].stopped).toBe(true);
+  });
+});
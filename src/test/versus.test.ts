@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { VersusMatch, bladesForPlayer, playerForBlade } from "@/engine/versus";
+import { FIXED_STEP_MS } from "@/utils/fixedTimestep";
+import { Blade } from "@/types/game";
+
+const WIDTH = 1200;
+const HEIGHT = 600;
+const HALF = WIDTH / 2;
+
+function swipe(id: string, fromX: number, toX: number, y: number): Blade {
+  return {
+    id,
+    trail: [
+      { x: fromX, y, timestamp: 0 },
+      { x: toX, y, timestamp: 16 },
+    ],
+    isSwiping: true,
+  };
+}
+
+function runUntil(match: VersusMatch, done: () => boolean, maxSteps = 20000) {
+  for (let i = 0; i < maxSteps && !done(); i++) {
+    match.step(FIXED_STEP_MS, match.cutsFor([]));
+  }
+}
+
+describe("versus", () => {
+  it("assigns blades by screen side or by hand", () => {
+    const left = swipe("hand-Left", 100, 200, 300);
+    const right = swipe("hand-Right", 900, 1000, 300);
+
+    expect(playerForBlade(left, WIDTH, "side")).toBe(0);
+    expect(playerForBlade(right, WIDTH, "side")).toBe(1);
+    // MediaPipe's labels are swapped on an unmirrored frame
+    expect(playerForBlade(left, WIDTH, "handedness")).toBe(1);
+    expect(playerForBlade(right, WIDTH, "handedness")).toBe(0);
+    expect(playerForBlade(swipe("pointer", 900, 1000, 300), WIDTH, "handedness")).toBe(1);
+  });
+
+  it("moves a player's blades into their half", () => {
+    const [blade] = bladesForPlayer([swipe("pointer", 700, 800, 300)], 1, WIDTH, "side");
+
+    expect(blade.trail.map((point) => point.x)).toEqual([700 - HALF, 800 - HALF]);
+    expect(bladesForPlayer([swipe("pointer", 700, 800, 300)], 0, WIDTH, "side")).toEqual([]);
+  });
+
+  it("throws the same fruit at both players", () => {
+    const match = new VersusMatch({ width: WIDTH, height: HEIGHT, seed: 9 });
+    for (let i = 0; i < 600; i++) {
+      match.step(FIXED_STEP_MS, match.cutsFor([]));
+    }
+
+    const [a, b] = match.getSnapshots();
+    expect(a.fruits.length).toBeGreaterThan(0);
+    expect(a.fruits).toEqual(b.fruits);
+  });
+
+  it("ends once the last player standing is ahead and names them the winner", () => {
+    const match = new VersusMatch({ width: WIDTH, height: HEIGHT, seed: 42 });
+    runUntil(match, () => match.getSnapshots()[1].fruits.length > 0);
+
+    // Player two slices their first fruit, player one never plays
+    const [fruit] = match.getSnapshots()[1].fruits;
+    const cut = swipe("pointer", HALF + fruit.x - 100, HALF + fruit.x + 100, fruit.y);
+    match.step(FIXED_STEP_MS, match.cutsFor([cut]));
+
+    const [playerOne, playerTwo] = match.getSnapshots();
+    expect(playerOne.stats.score).toBe(0);
+    expect(playerTwo.stats.score).toBeGreaterThan(0);
+
+    runUntil(match, () => match.finished);
+
+    expect(match.finished).toBe(true);
+    expect(match.getSnapshots()[0].status).toBe("gameover");
+    expect(match.winner).toBe(1);
+  });
+
+  it("calls a draw when nobody scores", () => {
+    const match = new VersusMatch({ width: WIDTH, height: HEIGHT, seed: 42 });
+    runUntil(match, () => match.finished);
+
+    expect(match.getSnapshots().every((snapshot) => snapshot.status === "gameover")).toBe(true);
+    expect(match.winner).toBeNull();
+  });
+});
@@ -1,8 +1,15 @@
 export type FruitType = 'apple' | 'orange' | 'watermelon' | 'banana' | 'pineapple' | 'strawberry';
 
-export type SpecialFruitType = 'frenzy' | 'freeze';
+export type SpecialFruitType = 'frenzy' | 'freeze' | 'doubleScore';
 
-export interface SpecialFruit {
+// Position at the previous simulation step - rendering interpolates towards x/y
+export interface Interpolated {
+  prevX: number;
+  prevY: number;
+  prevRotation: number;
+}
+
+export interface SpecialFruit extends Interpolated {
   id: string;
   specialType: SpecialFruitType;
   x: number;
@@ -14,7 +21,7 @@ export interface SpecialFruit {
   radius: number;
 }
 
-export interface Fruit {
+export interface Fruit extends Interpolated {
   id: string;
   type: FruitType;
   x: number;
@@ -28,7 +35,7 @@ export interface Fruit {
   sliceAngle?: number;
 }
 
-export interface Bomb {
+export interface Bomb extends Interpolated {
   id: string;
   x: number;
   y: number;
@@ -40,7 +47,7 @@ export interface Bomb {
   sliced: boolean;
 }
 
-export interface SlicedFruit {
+export interface SlicedFruit extends Interpolated {
   id: string;
   type: FruitType;
   x: number;
@@ -59,6 +66,8 @@ export interface Particle {
   id: string;
   x: number;
   y: number;
+  prevX: number;
+  prevY: number;
   velocityX: number;
   velocityY: number;
   color: string;
@@ -67,16 +76,56 @@ export interface Particle {
   lifetime: number;
 }
 
+// 'points' for a single slice or power-up, 'strokeBonus' for an "N fruit combo"
+export type ScorePopupType = 'points' | 'strokeBonus';
+
 export interface ScorePopup {
   id: string;
+  type: ScorePopupType;
   x: number;
   y: number;
   score: number;
   isCombo: boolean;
+  // Fruit cut in the stroke, for stroke bonuses
+  fruitCount?: number;
   createdAt: number;
 }
 
-export type GameState = 'menu' | 'playing' | 'gameover';
+export type GameState = 'menu' | 'playing' | 'paused' | 'gameover';
+
+// Id of a registered GameModeDefinition - see @/engine/modes
+export type GameMode = string;
+
+// A sampled blade position; timestamp is wall-clock ms from the input device
+export interface BladePoint {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+// One straight piece of the blade trail, in canvas coordinates
+export interface BladeSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// One cutting implement - the pointer or a tracked hand, e.g. "hand-Left"
+export interface Blade {
+  id: string;
+  trail: BladePoint[];
+  isSwiping: boolean;
+  // Extrapolated tip past the last real sample - cuts and draws, never stored in the trail
+  predicted?: BladePoint;
+}
+
+// What a single blade brings to one simulation step
+export interface BladeCut {
+  id: string;
+  segments: BladeSegment[];
+  swiping: boolean;
+}
 
 export interface GameStats {
   score: number;
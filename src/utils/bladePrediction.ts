@@ -0,0 +1,67 @@
+/**
+ * Blade prediction - extrapolates the fingertip ahead of the last camera sample
+ * The camera and hand model add a few frames of lag; projecting the blade
+ * along its recent velocity and acceleration lets it cut where the finger is
+ * now. Predictions never enter the trail, so the next real sample replaces them.
+ */
+
+import { Blade, BladePoint } from '@/types/game';
+
+export const DEFAULT_LOOKAHEAD_MS = 40;
+export const MAX_LOOKAHEAD_MS = 150;
+
+// Past this the extrapolation is more guess than motion
+const MAX_HORIZON_MS = 200;
+// Keeps a wild acceleration estimate from flinging the tip across the screen
+const MAX_PREDICTION_PX = 120;
+
+const LOOKAHEAD_KEY = 'fruitNinjaLookahead';
+
+/** Where the trail's tip should be horizonMs after its last point, null if unknowable */
+export function predictPoint(trail: BladePoint[], horizonMs: number): BladePoint | null {
+  if (trail.length < 2 || horizonMs <= 0 || horizonMs > MAX_HORIZON_MS) return null;
+
+  const tip = trail[trail.length - 1];
+  const prev = trail[trail.length - 2];
+  const dt = Math.max(1, tip.timestamp - prev.timestamp);
+  const vx = (tip.x - prev.x) / dt;
+  const vy = (tip.y - prev.y) / dt;
+
+  let ax = 0;
+  let ay = 0;
+  if (trail.length >= 3) {
+    const before = trail[trail.length - 3];
+    const dtBefore = Math.max(1, prev.timestamp - before.timestamp);
+    const mid = (dt + dtBefore) / 2;
+    ax = (vx - (prev.x - before.x) / dtBefore) / mid;
+    ay = (vy - (prev.y - before.y) / dtBefore) / mid;
+  }
+
+  let dx = vx * horizonMs + 0.5 * ax * horizonMs * horizonMs;
+  let dy = vy * horizonMs + 0.5 * ay * horizonMs * horizonMs;
+  const distance = Math.hypot(dx, dy);
+  if (distance > MAX_PREDICTION_PX) {
+    dx *= MAX_PREDICTION_PX / distance;
+    dy *= MAX_PREDICTION_PX / distance;
+  }
+
+  return { x: tip.x + dx, y: tip.y + dy, timestamp: tip.timestamp + horizonMs };
+}
+
+/** The blade with its tip predicted lookaheadMs past now; idle blades are left alone */
+export function predictBlade(blade: Blade, now: number, lookaheadMs: number): Blade {
+  const tip = blade.trail[blade.trail.length - 1];
+  if (!blade.isSwiping || !tip || lookaheadMs <= 0) return blade;
+
+  const predicted = predictPoint(blade.trail, now - tip.timestamp + lookaheadMs);
+  return predicted ? { ...blade, predicted } : blade;
+}
+
+export function loadLookahead(): number {
+  const stored = parseInt(localStorage.getItem(LOOKAHEAD_KEY) ?? '', 10);
+  return Number.isNaN(stored) ? DEFAULT_LOOKAHEAD_MS : Math.min(Math.max(stored, 0), MAX_LOOKAHEAD_MS);
+}
+
+export function saveLookahead(lookaheadMs: number): void {
+  localStorage.setItem(LOOKAHEAD_KEY, lookaheadMs.toString());
+}
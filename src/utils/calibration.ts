@@ -0,0 +1,106 @@
+/**
+ * Play-area calibration profiles
+ * Each profile maps the patch of camera space a player can comfortably reach
+ * onto the whole screen, so the corners don't need a full arm stretch.
+ */
+
+import { Homography, Point, applyHomography, conditionNumber, solveHomography } from './homography';
+
+const CALIBRATIONS_KEY = 'fruitNinjaCalibrations';
+const ACTIVE_PROFILE_KEY = 'fruitNinjaProfile';
+
+export const DEFAULT_PROFILE = 'Player 1';
+
+// The reached corners must cover at least this much of the camera frame
+const MIN_AREA = 0.02;
+// Sine of the sharpest or flattest corner allowed - about 10 degrees off a straight line
+const MIN_CORNER_SINE = 0.17;
+// Beyond this, landmark jitter is magnified into a shaking blade
+const MAX_CONDITION = 1000;
+
+// The whole camera frame, which the map has to keep in front of its horizon
+const CAMERA_FRAME: Point[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+// Screen corners in the order the targets are shown: clockwise from top-left
+export const CALIBRATION_CORNERS: Point[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+export interface Calibration {
+  profile: string;
+  // Mirrored, normalized fingertip positions the player reached for each corner
+  reached: Point[];
+  // Normalized camera point -> normalized screen point
+  homography: Homography;
+  calibratedAt: number;
+}
+
+export type CalibrationStore = Record<string, Calibration>;
+
+/**
+ * Whether the reached points make a usable play area: a convex quad wound
+ * clockwise like the screen corners, with no corner flattened into a line
+ */
+export function isUsablePlayArea(reached: Point[]): boolean {
+  if (reached.length !== 4) return false;
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const prev = reached[(i + 3) % 4];
+    const corner = reached[i];
+    const next = reached[(i + 1) % 4];
+    const inX = corner.x - prev.x;
+    const inY = corner.y - prev.y;
+    const outX = next.x - corner.x;
+    const outY = next.y - corner.y;
+    // Positive turns all the way round is clockwise on screen, where y points down
+    const cross = inX * outY - inY * outX;
+    if (!(cross > MIN_CORNER_SINE * Math.hypot(inX, inY) * Math.hypot(outX, outY))) return false;
+    area += (corner.x * next.y - next.x * corner.y) / 2;
+  }
+  return area >= MIN_AREA;
+}
+
+/** Calibration from the four reached points, null if they don't make a usable play area */
+export function createCalibration(profile: string, reached: Point[], calibratedAt: number): Calibration | null {
+  if (!isUsablePlayArea(reached)) return null;
+  const homography = solveHomography(reached, CALIBRATION_CORNERS);
+  if (!homography || conditionNumber(homography) > MAX_CONDITION) return null;
+  // A map that folds the camera frame over its horizon would send the blade flying
+  if (CAMERA_FRAME.some(point => applyHomography(homography, point) === null)) return null;
+  return { profile, reached, homography, calibratedAt };
+}
+
+/** Stored calibrations; any that no longer pass the checks are dropped */
+export function loadCalibrations(): CalibrationStore {
+  try {
+    const stored: CalibrationStore = JSON.parse(localStorage.getItem(CALIBRATIONS_KEY) || '{}');
+    const usable: CalibrationStore = {};
+    Object.entries(stored).forEach(([profile, { reached, calibratedAt }]) => {
+      const calibration = Array.isArray(reached) && createCalibration(profile, reached, calibratedAt);
+      if (calibration) usable[profile] = calibration;
+    });
+    return usable;
+  } catch {
+    return {};
+  }
+}
+
+export function saveCalibrations(calibrations: CalibrationStore): void {
+  localStorage.setItem(CALIBRATIONS_KEY, JSON.stringify(calibrations));
+}
+
+export function loadActiveProfile(): string {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE;
+}
+
+export function saveActiveProfile(profile: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profile);
+}
@@ -0,0 +1,58 @@
+/**
+ * Camera settings - which video input to track with, and at what size and rate
+ * Kept in localStorage so machines with several cameras remember the right one
+ */
+
+export interface CameraSettings {
+  // null for the browser's default camera
+  deviceId: string | null;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  width: 640,
+  height: 480,
+  frameRate: 30,
+};
+
+export const CAMERA_RESOLUTIONS = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+];
+
+export const CAMERA_FRAME_RATES = [15, 30, 60];
+
+const CAMERA_SETTINGS_KEY = 'fruitNinjaCamera';
+
+export function loadCameraSettings(): CameraSettings {
+  try {
+    return { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(localStorage.getItem(CAMERA_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+}
+
+export function saveCameraSettings(settings: CameraSettings): void {
+  localStorage.setItem(CAMERA_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/** getUserMedia video constraints - size and rate are ideals, the device is not */
+export function videoConstraints({ deviceId, width, height, frameRate }: CameraSettings): MediaTrackConstraints {
+  return {
+    ...(deviceId && { deviceId: { exact: deviceId } }),
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: frameRate },
+  };
+}
+
+/** Video inputs on this machine - labels stay empty until camera permission is granted */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+}
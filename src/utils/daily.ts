@@ -0,0 +1,51 @@
+/**
+ * Daily challenge - one seed per calendar day, so everyone gets the same
+ * fruit sequence. Attempts are kept per day in localStorage.
+ */
+
+import { parseSeed } from './random';
+
+const HISTORY_KEY = 'fruitNinjaDaily';
+
+export interface DailyResult {
+  attempts: number;
+  best: number;
+}
+
+// Keyed by local date, e.g. "2024-03-09"
+export type DailyHistory = Record<string, DailyResult>;
+
+export function dayKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function dateFromDayKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function dailySeed(key: string): number {
+  return parseSeed(`daily:${key}`) ?? 0;
+}
+
+export function loadDailyHistory(): DailyHistory {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveDailyHistory(history: DailyHistory): void {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+}
+
+export function recordDailyAttempt(history: DailyHistory, key: string, score: number): DailyHistory {
+  const previous = history[key] ?? { attempts: 0, best: 0 };
+  return {
+    ...history,
+    [key]: { attempts: previous.attempts + 1, best: Math.max(previous.best, score) },
+  };
+}
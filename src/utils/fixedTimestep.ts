@@ -0,0 +1,44 @@
+/**
+ * Fixed-timestep accumulator
+ * Decouples simulation steps from render frames so physics runs at the same
+ * rate on a 60 Hz laptop and a 144 Hz monitor
+ */
+
+// One simulation step - entity velocities are tuned in pixels per 60 Hz tick
+export const FIXED_STEP_MS = 1000 / 60;
+
+// Clamp long frames (tab switch, debugger) so we never run hundreds of catch-up steps
+const MAX_FRAME_MS = 250;
+
+export class FixedTimestep {
+  private accumulator = 0;
+
+  constructor(private readonly stepMs: number = FIXED_STEP_MS) {}
+
+  /**
+   * Feed elapsed wall-clock time and run as many whole steps as fit.
+   * Returns the interpolation factor (0..1) between the last two steps.
+   */
+  advance(frameMs: number, step: () => void): number {
+    this.accumulator += Math.min(Math.max(frameMs, 0), MAX_FRAME_MS);
+
+    while (this.accumulator >= this.stepMs) {
+      step();
+      this.accumulator -= this.stepMs;
+    }
+
+    return this.accumulator / this.stepMs;
+  }
+
+  get alpha(): number {
+    return this.accumulator / this.stepMs;
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
+
+export function lerp(from: number, to: number, alpha: number): number {
+  return from + (to - from) * alpha;
+}
@@ -220,10 +220,28 @@ export function drawSlicedFruit(
 /**
  * Draw the blade/swipe trail with simple point-to-point drawing (more reliable)
  */
+export interface BladePalette {
+  glow: string;
+  core: string;
+}
+
+const DEFAULT_BLADE: BladePalette = { glow: '#60DFFF', core: 'rgba(96, 223, 255, 0.8)' };
+
+// Each hand keeps its own colour so two-handed play stays readable
+const BLADE_PALETTES: Record<string, BladePalette> = {
+  'hand-Left': DEFAULT_BLADE,
+  'hand-Right': { glow: '#FF7AD9', core: 'rgba(255, 122, 217, 0.8)' },
+};
+
+export function bladePalette(bladeId: string): BladePalette {
+  return BLADE_PALETTES[bladeId] ?? DEFAULT_BLADE;
+}
+
 export function drawBladeTrail(
   ctx: CanvasRenderingContext2D,
   trail: Array<{ x: number; y: number; timestamp: number }>,
-  isSwiping: boolean
+  isSwiping: boolean,
+  palette: BladePalette = DEFAULT_BLADE
 ): void {
   if (trail.length < 2 || !isSwiping) return;
   
@@ -232,7 +250,7 @@ export function drawBladeTrail(
   ctx.lineJoin = 'round';
   
   // Outer glow
-  ctx.shadowColor = '#60DFFF';
+  ctx.shadowColor = palette.glow;
   ctx.shadowBlur = 20;
   ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
   ctx.lineWidth = 8;
@@ -246,7 +264,7 @@ export function drawBladeTrail(
   
   // Inner bright core
   ctx.shadowBlur = 0;
-  ctx.strokeStyle = 'rgba(96, 223, 255, 0.8)';
+  ctx.strokeStyle = palette.core;
   ctx.lineWidth = 3;
   
   ctx.beginPath();
@@ -259,6 +277,35 @@ export function drawBladeTrail(
   ctx.restore();
 }
 
+/**
+ * Draw the ghost's blade - a faint purple echo of the live trail
+ */
+export function drawGhostTrail(
+  ctx: CanvasRenderingContext2D,
+  trail: Array<{ x: number; y: number }>,
+  isSwiping: boolean
+): void {
+  if (trail.length < 2 || !isSwiping) return;
+
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.globalAlpha = 0.4;
+  ctx.shadowColor = '#C084FC';
+  ctx.shadowBlur = 12;
+  ctx.strokeStyle = '#E9D5FF';
+  ctx.lineWidth = 6;
+
+  ctx.beginPath();
+  ctx.moveTo(trail[0].x, trail[0].y);
+  for (let i = 1; i < trail.length; i++) {
+    ctx.lineTo(trail[i].x, trail[i].y);
+  }
+  ctx.stroke();
+
+  ctx.restore();
+}
+
 /**
  * Draw bomb with fuse and glow
  */
@@ -339,37 +386,44 @@ export function drawBomb(
 
 /**
  * Draw finger tracking indicator
+ * A disarmed blade (one that won't cut) is drawn as a grey dashed ring without the glow
  */
 export function drawFingerIndicator(
   ctx: CanvasRenderingContext2D,
   x: number,
   y: number,
-  isTracking: boolean
+  isTracking: boolean,
+  armed = true
 ): void {
   if (!isTracking) return;
   
   ctx.save();
   
+  const color = armed ? '#FFC832' : 'rgba(200, 200, 200, 0.8)';
+
   // Outer glow ring
-  const gradient = ctx.createRadialGradient(x, y, 5, x, y, 35);
-  gradient.addColorStop(0, 'rgba(255, 200, 50, 0.9)');
-  gradient.addColorStop(0.5, 'rgba(255, 200, 50, 0.4)');
-  gradient.addColorStop(1, 'rgba(255, 200, 50, 0)');
-  
-  ctx.fillStyle = gradient;
-  ctx.beginPath();
-  ctx.arc(x, y, 35, 0, Math.PI * 2);
-  ctx.fill();
+  if (armed) {
+    const gradient = ctx.createRadialGradient(x, y, 5, x, y, 35);
+    gradient.addColorStop(0, 'rgba(255, 200, 50, 0.9)');
+    gradient.addColorStop(0.5, 'rgba(255, 200, 50, 0.4)');
+    gradient.addColorStop(1, 'rgba(255, 200, 50, 0)');
+
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, 35, 0, Math.PI * 2);
+    ctx.fill();
+  }
   
   // Middle ring
-  ctx.strokeStyle = '#FFC832';
+  ctx.strokeStyle = color;
   ctx.lineWidth = 3;
+  if (!armed) ctx.setLineDash([6, 5]);
   ctx.beginPath();
   ctx.arc(x, y, 18, 0, Math.PI * 2);
   ctx.stroke();
   
   // Center dot
-  ctx.fillStyle = '#FFC832';
+  ctx.fillStyle = color;
   ctx.beginPath();
   ctx.arc(x, y, 5, 0, Math.PI * 2);
   ctx.fill();
@@ -548,6 +602,31 @@ export function drawSpecialFruit(
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
     ctx.fillText('⚡', 0, 0);
+  } else if (specialType === 'doubleScore') {
+    // Double Score Banana - Red-hot glowing banana
+    ctx.shadowColor = '#FF1744';
+    ctx.shadowBlur = 30;
+
+    const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radius);
+    gradient.addColorStop(0, '#FFEA00');
+    gradient.addColorStop(0.5, '#FF9100');
+    gradient.addColorStop(1, '#FF1744');
+
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    drawBananaShape(ctx, radius);
+    ctx.fill();
+
+    // "x2" indicator
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.strokeStyle = '#B71C1C';
+    ctx.lineWidth = 3;
+    ctx.font = `bold ${radius * 0.5}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.strokeText('x2', 0, 0);
+    ctx.fillText('x2', 0, 0);
   } else {
     // Freeze Fruit - Blue ice cube effect
     ctx.shadowColor = '#00FFFF';
@@ -0,0 +1,94 @@
+/**
+ * Planar homography - the projective map taking one quadrilateral onto another
+ * Four point pairs pin it down exactly; an affine map is the special case
+ * where the bottom row comes out as (0, 0, 1).
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Row-major 3x3 matrix
+export type Homography = number[];
+
+export const IDENTITY_HOMOGRAPHY: Homography = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Points this close to the horizon line (w = 0) are flung towards infinity
+const MIN_W = 1e-6;
+
+// Gaussian elimination with partial pivoting; null when the system is singular
+function solveLinear(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Homography taking each `from` point onto the matching `to` point.
+ * Null when three of the points are (nearly) in a line.
+ */
+export function solveHomography(from: Point[], to: Point[]): Homography | null {
+  if (from.length !== 4 || to.length !== 4) {
+    throw new Error('A homography needs exactly four point pairs');
+  }
+
+  const matrix: number[][] = [];
+  const rhs: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    rhs.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    rhs.push(v);
+  });
+
+  const h = solveLinear(matrix, rhs);
+  return h && [...h, 1];
+}
+
+/** Where the homography sends a point, null for points on or behind its horizon */
+export function applyHomography(h: Homography, { x, y }: Point): Point | null {
+  const w = h[6] * x + h[7] * y + h[8];
+  if (!(w > MIN_W)) return null;
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+  };
+}
+
+/** How much the map can magnify input error - large when it squeezes a sliver into a square */
+export function conditionNumber(h: Homography): number {
+  const [a, b, c, d, e, f, g, i, j] = h;
+  // Inverse up to scale from the adjugate; the scale cancels in the product of norms
+  const adjugate = [
+    e * j - f * i, c * i - b * j, b * f - c * e,
+    f * g - d * j, a * j - c * g, c * d - a * f,
+    d * i - e * g, b * g - a * i, a * e - b * d,
+  ];
+  const det = a * adjugate[0] + b * adjugate[3] + c * adjugate[6];
+  if (det === 0) return Infinity;
+  const norm = (m: number[]) => Math.hypot(...m);
+  return (norm(h) * norm(adjugate)) / Math.abs(det);
+}
@@ -0,0 +1,48 @@
+/**
+ * MediaPipe Hands assets - the wasm, model and loader scripts Hands fetches at runtime
+ * Imported as URLs so Vite bundles them and they are served from our own origin
+ */
+
+import packedAssetsLoader from '@mediapipe/hands/hands_solution_packed_assets_loader.js?url';
+import packedAssets from '@mediapipe/hands/hands_solution_packed_assets.data?url';
+import simdWasmLoader from '@mediapipe/hands/hands_solution_simd_wasm_bin.js?url';
+import simdWasm from '@mediapipe/hands/hands_solution_simd_wasm_bin.wasm?url';
+import wasmLoader from '@mediapipe/hands/hands_solution_wasm_bin.js?url';
+import wasm from '@mediapipe/hands/hands_solution_wasm_bin.wasm?url';
+import graph from '@mediapipe/hands/hands.binarypb?url';
+import fullModel from '@mediapipe/hands/hand_landmark_full.tflite?url';
+import liteModel from '@mediapipe/hands/hand_landmark_lite.tflite?url';
+
+// Keyed by the file name Hands asks for - it picks the SIMD build and model at runtime
+const HANDS_ASSETS: Record<string, string> = {
+  'hands_solution_packed_assets_loader.js': packedAssetsLoader,
+  'hands_solution_packed_assets.data': packedAssets,
+  'hands_solution_simd_wasm_bin.js': simdWasmLoader,
+  'hands_solution_simd_wasm_bin.wasm': simdWasm,
+  'hands_solution_wasm_bin.js': wasmLoader,
+  'hands_solution_wasm_bin.wasm': wasm,
+  'hands.binarypb': graph,
+  'hand_landmark_full.tflite': fullModel,
+  'hand_landmark_lite.tflite': liteModel,
+};
+
+/** locateFile for Hands - an unknown file is a missing entry above, so fail loudly */
+export function locateHandsFile(file: string): string {
+  const url = HANDS_ASSETS[file];
+  if (!url) throw new Error(`MediaPipe asset not bundled: ${file}`);
+  return url;
+}
+
+/** Loads the Hands and Camera modules on demand, off the initial page load */
+export async function loadMediaPipe() {
+  try {
+    const [{ Hands }, { Camera }] = await Promise.all([
+      import('@mediapipe/hands'),
+      import('@mediapipe/camera_utils'),
+    ]);
+    return { Hands, Camera };
+  } catch (error) {
+    console.error('MediaPipe import failed:', error);
+    throw new Error('MediaPipe failed to load');
+  }
+}
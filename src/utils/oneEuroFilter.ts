@@ -0,0 +1,108 @@
+/**
+ * One Euro filter - speed-adaptive low-pass smoothing for noisy pointer input
+ * A still fingertip gets a low cutoff (no jitter); a fast one raises the
+ * cutoff so the blade doesn't lag behind the swipe.
+ * See Casiez et al., "1€ Filter", CHI 2012.
+ */
+
+export interface OneEuroSettings {
+  // Cutoff in Hz when the finger is still - lower means less jitter, more lag
+  minCutoff: number;
+  // How fast the cutoff rises with speed (per px/s) - higher means less lag on swipes
+  beta: number;
+  // Cutoff for the speed estimate itself
+  derivativeCutoff: number;
+}
+
+export const DEFAULT_FILTER_SETTINGS: OneEuroSettings = {
+  minCutoff: 0.5,
+  beta: 0.01,
+  derivativeCutoff: 1.0,
+};
+
+const FILTER_SETTINGS_KEY = 'fruitNinjaFilterSettings';
+
+function smoothingFactor(cutoff: number, dtSeconds: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dtSeconds);
+}
+
+export class OneEuroFilter {
+  private previous: number | null = null;
+  private previousDerivative = 0;
+  private previousTime = 0;
+
+  constructor(private settings: OneEuroSettings = DEFAULT_FILTER_SETTINGS) {}
+
+  configure(settings: OneEuroSettings): void {
+    this.settings = settings;
+  }
+
+  /** Filter one sample taken at the given time in ms */
+  filter(value: number, timestamp: number): number {
+    if (this.previous === null) {
+      this.previous = value;
+      this.previousTime = timestamp;
+      return value;
+    }
+
+    const { minCutoff, beta, derivativeCutoff } = this.settings;
+    // Repeated timestamps still count as a (very short) step
+    const dt = Math.max(timestamp - this.previousTime, 1) / 1000;
+
+    const derivative = (value - this.previous) / dt;
+    const derivativeAlpha = smoothingFactor(derivativeCutoff, dt);
+    const smoothedDerivative = derivativeAlpha * derivative + (1 - derivativeAlpha) * this.previousDerivative;
+
+    const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+    const alpha = smoothingFactor(cutoff, dt);
+    const smoothed = alpha * value + (1 - alpha) * this.previous;
+
+    this.previous = smoothed;
+    this.previousDerivative = smoothedDerivative;
+    this.previousTime = timestamp;
+    return smoothed;
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.previousDerivative = 0;
+  }
+}
+
+/** One filter per axis for a 2D point */
+export class PointFilter {
+  private readonly x: OneEuroFilter;
+  private readonly y: OneEuroFilter;
+
+  constructor(settings: OneEuroSettings = DEFAULT_FILTER_SETTINGS) {
+    this.x = new OneEuroFilter(settings);
+    this.y = new OneEuroFilter(settings);
+  }
+
+  configure(settings: OneEuroSettings): void {
+    this.x.configure(settings);
+    this.y.configure(settings);
+  }
+
+  filter(x: number, y: number, timestamp: number): { x: number; y: number } {
+    return { x: this.x.filter(x, timestamp), y: this.y.filter(y, timestamp) };
+  }
+
+  reset(): void {
+    this.x.reset();
+    this.y.reset();
+  }
+}
+
+export function loadFilterSettings(): OneEuroSettings {
+  try {
+    return { ...DEFAULT_FILTER_SETTINGS, ...JSON.parse(localStorage.getItem(FILTER_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_FILTER_SETTINGS;
+  }
+}
+
+export function saveFilterSettings(settings: OneEuroSettings): void {
+  localStorage.setItem(FILTER_SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,70 @@
+/**
+ * Seedable pseudo-random number generator
+ * Every random decision in the engine goes through this so a run can be
+ * reproduced from its seed
+ */
+
+const MAX_SEED = 0xffffffff;
+
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Uniform float in [0, 1) - mulberry32 */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Uniform float in [min, max) */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Uniform integer in [0, max) */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /** Short entity id drawn from the same stream */
+  id(): string {
+    return this.next().toString(36).substr(2, 9);
+  }
+}
+
+/** Fresh seed for a casual run - the only place allowed to use Math.random */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Turn player input into a seed. Plain numbers are used as-is,
+ * anything else (e.g. "friday") is hashed so words work as seeds too.
+ */
+export function parseSeed(input: string): number | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+$/.test(trimmed)) {
+    const value = Number(trimmed);
+    if (value <= MAX_SEED) return value;
+  }
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,54 @@
+/**
+ * Local replay storage
+ * Keeps the most recent runs plus the best run of every mode; older
+ * replays are dropped first when localStorage fills up.
+ */
+
+import { Replay, REPLAY_VERSION } from '@/engine/replay';
+import { GameMode } from '@/types/game';
+
+const REPLAYS_KEY = 'fruitNinjaReplays';
+const MAX_RECENT = 10;
+
+export function loadReplays(): Replay[] {
+  try {
+    const replays: Replay[] = JSON.parse(localStorage.getItem(REPLAYS_KEY) || '[]');
+    return replays.filter(replay => replay.version === REPLAY_VERSION);
+  } catch {
+    return [];
+  }
+}
+
+export function loadReplay(id: string): Replay | null {
+  return loadReplays().find(replay => replay.id === id) ?? null;
+}
+
+export function bestReplay(mode: GameMode, replays = loadReplays()): Replay | null {
+  return replays
+    .filter(replay => replay.mode === mode)
+    .reduce<Replay | null>((best, replay) => (!best || replay.stats.score > best.stats.score ? replay : best), null);
+}
+
+// Newest first; anything past the recent window survives only as a mode best
+function prune(replays: Replay[], recent: number): Replay[] {
+  const keep = new Set(replays.slice(0, recent).map(replay => replay.id));
+  new Set(replays.map(replay => replay.mode)).forEach(mode => {
+    const best = bestReplay(mode, replays);
+    if (best) keep.add(best.id);
+  });
+  return replays.filter(replay => keep.has(replay.id));
+}
+
+export function saveReplay(replay: Replay): void {
+  const replays = [replay, ...loadReplays().filter(r => r.id !== replay.id)];
+
+  for (let recent = MAX_RECENT; recent >= 1; recent--) {
+    try {
+      localStorage.setItem(REPLAYS_KEY, JSON.stringify(prune(replays, recent)));
+      return;
+    } catch {
+      // Quota exceeded - retry with fewer recent runs
+    }
+  }
+  console.warn('Replay could not be stored: localStorage is full');
+}
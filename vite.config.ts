@@ -1,7 +1,31 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
+// MediaPipe ships closure-compiled scripts that hang their API off `this`.
+// Run each one against a scope object and re-export what it defines, so the
+// packages can be imported as ES modules in dev and in the production bundle.
+const MEDIAPIPE_EXPORTS: Record<string, string[]> = {
+  "@mediapipe/hands/hands.js": ["Hands", "HAND_CONNECTIONS", "VERSION"],
+  "@mediapipe/camera_utils/camera_utils.js": ["Camera"],
+};
+
+function mediapipeModules(): Plugin {
+  return {
+    name: "mediapipe-modules",
+    enforce: "pre",
+    transform(code, id) {
+      const file = Object.keys(MEDIAPIPE_EXPORTS).find((name) => id.split("?")[0].endsWith(name));
+      if (!file) return null;
+      const names = MEDIAPIPE_EXPORTS[file];
+      return {
+        code: `const scope = {};\n(function () {\n${code}\n}).call(scope);\nexport const { ${names.join(", ")} } = scope;\n`,
+        map: null,
+      };
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(() => ({
   server: {
@@ -11,7 +35,11 @@ export default defineConfig(() => ({
       overlay: false,
     },
   },
-  plugins: [react()],
+  plugins: [react(), mediapipeModules()],
+  // Pre-bundling would skip the transform above
+  optimizeDeps: {
+    exclude: ["@mediapipe/hands", "@mediapipe/camera_utils"],
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),